@@ -46,6 +46,41 @@ const webviewConfig = {
   logLevel: 'info',
 };
 
+/**
+ * `silver` CLI — runs workflows in git hooks and CI. Plain Node: nothing it
+ * bundles may import vscode (see src/features/workflow-engine/host.ts).
+ * @type {esbuild.BuildOptions}
+ */
+const cliConfig = {
+  entryPoints: ['src/cli/silver.ts'],
+  bundle: true,
+  outfile: 'dist/cli.js',
+  format: 'cjs',
+  platform: 'node',
+  target: 'node20',
+  sourcemap: !isProd,
+  minify: isProd,
+  treeShaking: true,
+  banner: { js: '#!/usr/bin/env node' },
+  logLevel: 'info',
+};
+
+/**
+ * Unit tests for the pure modules — `npm test` runs the bundle with Node's
+ * built-in test runner (node:test), so no VS Code instance is needed.
+ * @type {esbuild.BuildOptions}
+ */
+const testConfig = {
+  entryPoints: ['src/test/runTests.ts'],
+  bundle: true,
+  outfile: 'dist/test/runTests.js',
+  format: 'cjs',
+  platform: 'node',
+  target: 'node20',
+  sourcemap: true,
+  logLevel: 'info',
+};
+
 /**
  * Copy runtime data assets that cannot be bundled (loaded via __dirname at runtime).
  *
@@ -91,7 +126,7 @@ function copyRuntimeAssets() {
 async function build() {
   const configs = isWebview
     ? [webviewConfig]
-    : [extensionConfig, webviewConfig];
+    : [extensionConfig, webviewConfig, cliConfig, ...(isProd ? [] : [testConfig])];
 
   if (isWatch) {
     copyRuntimeAssets();
@@ -3,8 +3,15 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { execSync } from 'child_process';
 import type { SilverServices } from '../types';
+import type { AffectedModule, ExpertMatch, SilverNode } from '../core/storage/graph';
 import { extractTicketId } from '../core/mcp/tools';
 import { gatherDailyContext } from '../features/morning-briefing';
+import { runStatus } from '../features/workflow-engine/history';
+import { validateWorkflow } from '../features/workflow-engine/validator';
+import { WorkflowDebugPanel } from '../features/workflow-engine/debugger';
+import type { WorkflowCheckpoint, WorkflowRunOptions } from '../features/workflow-engine/types';
+import type { StepStream } from '../features/workflow-engine/host';
+import { parseDecisionPrompt, recordDecision, type RecordedDecision } from '../features/knowledge-graph/decisions';
 
 // ---------------------------------------------------------------------------
 // Agent profile loader
@@ -100,6 +107,9 @@ async function handleRequest(
     case 'tools':    return handleToolsCommand(stream, svc);
     case 'run':      return handleRunCommand(request.prompt, stream, token, svc);
     case 'workflows':return handleListWorkflowsCommand(stream, svc);
+    case 'runs':     return handleRunsCommand(request.prompt, stream, svc);
+    case 'who':      return handleWhoCommand(request.prompt, stream, svc);
+    case 'decide':   return handleDecideCommand(request.prompt, stream, svc);
   }
 
   // ── Generic LM query with context injection ───────────────────────────
@@ -273,10 +283,10 @@ async function handleReviewCommand(
   const diffScope     = useLastCommit ? 'HEAD~1..HEAD' : '--staged';
 
   const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const opts = { encoding: 'utf8' as const, maxBuffer: 512 * 1024, cwd };
   let diff = '';
   let commitMsg = '';
   try {
-    const opts = { encoding: 'utf8' as const, maxBuffer: 512 * 1024, cwd };
     diff      = execSync(`git diff ${diffScope}`, opts);
     commitMsg = execSync('git log -1 --pretty=%B', opts).trim();
   } catch (err) {
@@ -305,6 +315,22 @@ async function handleReviewCommand(
     `| **Diff** | ${diffLines} lines |\n\n`,
   );
 
+  // ─ 1b. Suggest Gerrit reviewers from the knowledge graph ───────────────
+  const reviewers = suggestReviewers(diffScope, opts, svc);
+  if (reviewers.length > 0) {
+    stream.markdown('**Suggested reviewers** (from git history):\n');
+    for (const r of reviewers) {
+      stream.markdown(`- ${r.label}${r.email ? ` <${r.email}>` : ''} — ${r.reasons.join('; ')}\n`);
+    }
+    stream.markdown('\n');
+  }
+
+  // ─ 1c. Downstream modules that depend on the changed ones ─────────────
+  const affected = downstreamModules(diffScope, opts, svc);
+  if (affected.length > 0) {
+    stream.markdown(`**Downstream modules affected:** ${describeAffected(affected)}\n\n`);
+  }
+
   // ─ 2. Load reviewer instructions from .github/agents/<name>.agent.md ──
   // Agents are the standard VS Code/GitHub Copilot unit for persona definitions.
   // The same file is used by both the VS Code agent dropdown AND this command.
@@ -368,6 +394,7 @@ async function handleReviewCommand(
     vscode.LanguageModelChatMessage.User(
       `## Commit Message\n${commitMsg}` +
       externalContext +
+      (affected.length > 0 ? `\n\n## Downstream Modules\nThese modules import the changed ones — check the change does not break them: ${describeAffected(affected)}` : '') +
       `\n\n## Diff\n\`\`\`diff\n${diffForReview}\n\`\`\``,
     ),
   ];
@@ -386,9 +413,11 @@ async function handleReviewCommand(
   stream.markdown('\n\n---\n');
   if (passed && !failed) {
     stream.markdown('### ✅ Review passed\n');
+    const emails = reviewers.map(r => r.email).filter((e): e is string => !!e);
     stream.button({
       command: 'silver-engineer.pushToGerrit',
-      title: '↑ Push to Gerrit',
+      title: emails.length ? '↑ Push to Gerrit with suggested reviewers' : '↑ Push to Gerrit',
+      arguments: emails.length ? [emails] : [],
     });
   } else if (failed) {
     stream.markdown('### ❌ Issues found — fix before pushing\n');
@@ -403,6 +432,45 @@ async function handleReviewCommand(
   return { metadata: {} };
 }
 
+/**
+ * Top people for the changed files, excluding the current git user.
+ * Best-effort: an empty list when git or the graph has nothing to offer.
+ */
+function suggestReviewers(
+  diffScope: string,
+  opts: { encoding: 'utf8'; maxBuffer: number; cwd: string | undefined },
+  svc: SilverServices,
+): ExpertMatch[] {
+  try {
+    const files = execSync(`git diff --name-only ${diffScope}`, opts).split('\n').filter(Boolean);
+    const me    = execSync('git config user.email', opts).trim().toLowerCase();
+    return svc.graph.findExperts(files, { limit: 3, exclude: me ? [`person:${me}`] : [] });
+  } catch {
+    return [];
+  }
+}
+
+/** Modules depending on the changed files' modules (from the import graph) */
+function downstreamModules(
+  diffScope: string,
+  opts: { encoding: 'utf8'; maxBuffer: number; cwd: string | undefined },
+  svc: SilverServices,
+): AffectedModule[] {
+  try {
+    const files = execSync(`git diff --name-only ${diffScope}`, opts).split('\n').filter(Boolean);
+    return svc.graph.downstreamOf(svc.graph.resolveModules(files));
+  } catch {
+    return [];
+  }
+}
+
+/** e.g. '`src/chat` (direct), `src` (via `src/chat`)' */
+function describeAffected(affected: AffectedModule[]): string {
+  return affected
+    .map(a => `\`${a.label}\` (${a.depth === 1 ? 'direct' : `via \`${a.via}\``})`)
+    .join(', ');
+}
+
 // ---------------------------------------------------------------------------
 // /run — Execute a named workflow from .github/workflows/silver/*.yml
 // ---------------------------------------------------------------------------
@@ -413,11 +481,14 @@ async function handleRunCommand(
   token: vscode.CancellationToken,
   svc: SilverServices,
 ): Promise<vscode.ChatResult> {
-  const workflowName = prompt.trim();
+  const { name: workflowName, flags } = parseRunArgs(prompt);
 
   if (!workflowName) {
     stream.markdown('## ⚙️ Run Workflow\n\n');
-    stream.markdown('Usage: `@silver /run <workflow-name>`\n\n');
+    stream.markdown('Usage: `@silver /run <workflow-name> [--resume] [--dry-run] [--debug]`\n\n');
+    stream.markdown('- `--resume` — continue the last aborted run from the step where it stopped\n');
+    stream.markdown('- `--dry-run` — show what each step would do without executing anything\n');
+    stream.markdown('- `--debug` — pause before each step in the debugger panel (edit variables, step over, skip, continue)\n\n');
     stream.markdown('Run `@silver /workflows` to see all available workflows.\n');
     return { metadata: {} };
   }
@@ -425,16 +496,130 @@ async function handleRunCommand(
   const workflow = svc.workflows.loadWorkflow(workflowName);
   if (!workflow) {
     stream.markdown(`## ⚙️ Workflow: \`${workflowName}\`\n\n`);
+    const broken = svc.workflows.loadError(workflowName);
+    if (broken) {
+      const at = broken.line !== undefined ? ` (line ${broken.line + 1})` : '';
+      stream.markdown(`> ❌ ${broken.message}${at}\n\n`);
+      stream.markdown('Fix the file (see the Problems panel) and try again.\n');
+      return { metadata: {} };
+    }
     stream.markdown(`> ❌ No workflow named \`${workflowName}\` found.\n\n`);
     stream.markdown('Expected location: `.github/workflows/silver/${workflowName}.yml`\n\n');
     stream.markdown('Run `@silver /workflows` to list available workflows.\n');
     return { metadata: {} };
   }
 
-  await svc.workflows.run(workflow, stream, token);
+  // Refuse to start a workflow the validator rejects (warnings are fine)
+  const errors = validateWorkflow(workflow, n => svc.workflows.loadWorkflow(n) ?? undefined)
+    .filter(p => p.severity === 'error');
+  if (errors.length > 0 && !flags.has('dry-run')) {
+    stream.markdown(`## ⚙️ Workflow: \`${workflow.name}\`\n\n`);
+    stream.markdown(`> ❌ Workflow is invalid (${errors.length} error${errors.length === 1 ? '' : 's'}) — not running it.\n\n`);
+    for (const e of errors) {
+      stream.markdown(`- ${e.stepId ? `\`${e.stepId}\`: ` : ''}${e.message}\n`);
+    }
+    stream.markdown('\nFix the file (see the Problems panel) and try again.\n');
+    return { metadata: {} };
+  }
+
+  const options: WorkflowRunOptions = { dryRun: flags.has('dry-run') };
+  if (flags.has('resume')) {
+    const checkpoint = await svc.runs.loadCheckpoint(workflow.name);
+    if (!checkpoint || !workflow.steps.some(s => s.id === checkpoint.resumeAt)) {
+      stream.markdown(`## ⚙️ Workflow: \`${workflow.name}\`\n\n`);
+      stream.markdown(checkpoint
+        ? `> ❌ Checkpoint points at step \`${checkpoint.resumeAt}\`, which no longer exists in this workflow.\n`
+        : '> ⚪ Nothing to resume — the last run finished, or aborted before its first step completed.\n');
+      stream.markdown(`\nRun it from the start with \`@silver /run ${workflowName}\`.\n`);
+      return { metadata: {} };
+    }
+
+    const edited = await reviewCheckpointVariables(checkpoint);
+    if (!edited) {
+      stream.markdown('> 🚫 Resume cancelled.\n');
+      return { metadata: {} };
+    }
+    options.resume = edited;
+  }
+
+  // The debugger pauses before every top-level step; a dry run has nothing to pause
+  const debugPanel = flags.has('debug') && !options.dryRun ? new WorkflowDebugPanel(workflow) : undefined;
+  options.debug = debugPanel;
+
+  const result = await svc.workflows.run(workflow, withFileLinks(stream), token, options);
+  debugPanel?.finish(result);
+  if (options.dryRun) {
+    stream.markdown(`\n> Run it for real with \`@silver /run ${workflowName}\`\n`);
+    return { metadata: {} };
+  }
+  const record = await svc.runs.save(result);
+  stream.markdown(`\n> 🗂️ Run recorded as \`${record.id}\` — reopen with \`@silver /runs ${record.id}\`\n`);
   return { metadata: {} };
 }
 
+/**
+ * Adapts the chat stream for the engine: files written by `artifacts:` are
+ * shown as anchors that open in the editor, and listed as references.
+ */
+function withFileLinks(stream: vscode.ChatResponseStream): StepStream {
+  return {
+    markdown: value => stream.markdown(typeof value === 'string' ? value : value.value),
+    linkFile(absolutePath, title) {
+      const uri = vscode.Uri.file(absolutePath);
+      stream.anchor(uri, title);
+      stream.reference(uri);
+    },
+  };
+}
+
+/**
+ * Splits `/run` arguments into the workflow name and `--flag` switches.
+ */
+function parseRunArgs(prompt: string): { name: string; flags: Set<string> } {
+  const words = prompt.trim().split(/\s+/).filter(Boolean);
+  const flags = new Set(words.filter(w => w.startsWith('--')).map(w => w.slice(2).toLowerCase()));
+  const name  = words.filter(w => !w.startsWith('--')).join(' ');
+  return { name, flags };
+}
+
+/**
+ * Lets the user inspect and edit captured variables before a resume.
+ * Returns the (possibly edited) checkpoint, or undefined if cancelled.
+ */
+async function reviewCheckpointVariables(
+  checkpoint: WorkflowCheckpoint,
+): Promise<WorkflowCheckpoint | undefined> {
+  const variables = { ...checkpoint.variables };
+  const RESUME = '$(debug-continue) Resume now';
+
+  for (;;) {
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: RESUME, description: `from step ${checkpoint.resumeAt}` },
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        ...Object.entries(variables).map(([name, value]) => ({
+          label: name,
+          description: value.replace(/\s+/g, ' ').slice(0, 80),
+        })),
+      ],
+      {
+        title: `Resume ${checkpoint.workflowName} — select a variable to edit`,
+        placeHolder: 'Pick a captured variable to change it, or resume now',
+        ignoreFocusOut: true,
+      },
+    );
+    if (!picked) return undefined;
+    if (picked.label === RESUME) return { ...checkpoint, variables };
+
+    const value = await vscode.window.showInputBox({
+      title: `Edit {{${picked.label}}}`,
+      value: variables[picked.label],
+      ignoreFocusOut: true,
+    });
+    if (value !== undefined) variables[picked.label] = value;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // /workflows — List all available workflows
 // ---------------------------------------------------------------------------
@@ -454,10 +639,175 @@ async function handleListWorkflowsCommand(
   }
 
   for (const w of list) {
-    stream.markdown(`- **\`${w.name}\`** — ${w.description || '*(no description)*'}\n`);
+    const errors   = w.problems.filter(p => p.severity === 'error');
+    const warnings = w.problems.length - errors.length;
+    const badge = errors.length > 0
+      ? ` — ❌ **invalid** (${errors.length} error${errors.length === 1 ? '' : 's'}: ${errors[0].message})`
+      : warnings > 0 ? ` — ⚠️ ${warnings} warning${warnings === 1 ? '' : 's'}` : '';
+    stream.markdown(`- **\`${w.name}\`** — ${w.description || '*(no description)*'}${badge}\n`);
   }
 
-  stream.markdown('\n> Run with `@silver /run <name>`\n');
+  stream.markdown('\n> Run with `@silver /run <name>`');
+  if (list.some(w => w.problems.length > 0)) {
+    stream.markdown(' — open the workflow file to see its problems in the Problems panel');
+  }
+  stream.markdown('\n');
+  return { metadata: {} };
+}
+
+// ---------------------------------------------------------------------------
+// /runs — Browse persisted workflow run history
+// ---------------------------------------------------------------------------
+
+const STATUS_ICONS: Record<string, string> = {
+  passed: '✅', failed: '⚠️', aborted: '❌', cancelled: '🚫',
+};
+
+async function handleRunsCommand(
+  prompt: string,
+  stream: vscode.ChatResponseStream,
+  svc: SilverServices,
+): Promise<vscode.ChatResult> {
+  const arg = prompt.trim();
+
+  // `/runs <id>` — reopen a single run
+  const record = arg && !/\s/.test(arg) ? await svc.runs.get(arg) : undefined;
+  if (record) {
+    const status = runStatus(record);
+    stream.markdown(`## 🗂️ Run \`${record.id}\`\n\n`);
+    stream.markdown(
+      `| | |\n|---|---|\n` +
+      `| **Workflow** | \`${record.workflowName}\` |\n` +
+      `| **Status** | ${STATUS_ICONS[status]} ${status}${record.abortedAt ? ` at \`${record.abortedAt}\`` : ''} |\n` +
+      `| **Started** | ${record.startedAt} |\n` +
+      `| **Finished** | ${record.finishedAt} |\n` +
+      `| **Trigger** | ${record.trigger ?? 'chat'} |\n\n`,
+    );
+
+    stream.markdown('### Steps\n\n');
+    for (const step of record.steps) {
+      const icon = step.skipped ? '⏭️' : step.passed ? '✅' : step.recoveredBy ? '↪️' : '❌';
+      stream.markdown(`#### ${icon} \`${step.id}\`${step.model ? ` — 🧠 \`${step.model}\`` : ''}\n\n`);
+      if (step.failReason) stream.markdown(`> ${step.failReason}\n\n`);
+      if (step.output) stream.markdown(`\`\`\`\n${step.output}\n\`\`\`\n\n`);
+    }
+
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+    if (record.artifacts?.length && root) {
+      stream.markdown('### Artifacts\n\n');
+      for (const a of record.artifacts) {
+        stream.markdown('- ');
+        stream.anchor(vscode.Uri.joinPath(root, a.path), a.path);
+        stream.markdown(` — from \`${a.stepId}\`${a.format === 'sarif' ? ' (SARIF)' : ''}\n`);
+      }
+      stream.markdown('\n');
+    }
+
+    const vars = Object.entries(record.variables);
+    if (vars.length > 0) {
+      stream.markdown('### Variables\n\n');
+      for (const [name, value] of vars) {
+        const oneLine = value.replace(/\s+/g, ' ');
+        stream.markdown(`- \`${name}\` = \`${oneLine.length > 120 ? oneLine.slice(0, 119) + '…' : oneLine}\`\n`);
+      }
+    }
+    return { metadata: {} };
+  }
+
+  // `/runs [filter…]` — list recent runs
+  stream.markdown('## 🗂️ Workflow Runs\n\n');
+  const runs = await svc.runs.list(arg, 20);
+  if (runs.length === 0) {
+    stream.markdown(arg ? `> No runs match \`${arg}\`.\n` : '> No workflow runs recorded yet. Start one with `@silver /run <name>`.\n');
+    return { metadata: {} };
+  }
+
+  stream.markdown('| Run | Workflow | Status | Started |\n|---|---|---|---|\n');
+  for (const r of runs) {
+    const status = runStatus(r);
+    const where  = r.abortedAt ? ` at \`${r.abortedAt}\`` : '';
+    stream.markdown(`| \`${r.id}\` | \`${r.workflowName}\` | ${STATUS_ICONS[status]} ${status}${where} | ${r.startedAt} |\n`);
+  }
+  stream.markdown('\n> Reopen a run with `@silver /runs <id>`. Filter with `@silver /runs <workflow> failed`.\n');
+  return { metadata: {} };
+}
+
+// ---------------------------------------------------------------------------
+// /who — rank people by what the knowledge graph knows about a topic
+// ---------------------------------------------------------------------------
+
+async function handleWhoCommand(
+  prompt: string,
+  stream: vscode.ChatResponseStream,
+  svc: SilverServices,
+): Promise<vscode.ChatResult> {
+  // Paths may be absolute or workspace-relative; several may be given
+  const topics = prompt.split(/[\s,]+/).filter(Boolean).map(t => vscode.workspace.asRelativePath(t, false));
+  if (topics.length === 0) {
+    stream.markdown('> Usage: `@silver /who <path|module|technology>` — e.g. `/who src/core/storage/graph.ts`\n');
+    return { metadata: {} };
+  }
+
+  stream.markdown(`## 🧑‍💻 Who knows about ${topics.map(t => `\`${t}\``).join(', ')}\n\n`);
+  const experts = svc.graph.findExperts(topics, { limit: 8 });
+  if (experts.length === 0) {
+    stream.markdown('> No module or technology in the knowledge graph matches. Build it from git history first:\n\n');
+    stream.button({ command: 'silver-engineer.ingestGitHistory', title: '⟳ Ingest Git History' });
+    return { metadata: {} };
+  }
+
+  stream.markdown('| # | Person | Score | Why |\n|---|---|---|---|\n');
+  experts.forEach((e, i) => {
+    const who = e.email ? `${e.label} <${e.email}>` : e.label;
+    stream.markdown(`| ${i + 1} | ${who} | ${e.score.toFixed(2)} | ${e.reasons.join('; ')} |\n`);
+  });
+  return { metadata: {} };
+}
+
+// ---------------------------------------------------------------------------
+// /decide — record an architecture decision in the knowledge graph
+// ---------------------------------------------------------------------------
+
+async function handleDecideCommand(
+  prompt: string,
+  stream: vscode.ChatResponseStream,
+  svc: SilverServices,
+): Promise<vscode.ChatResult> {
+  const input = parseDecisionPrompt(prompt);
+  if (!input.title) {
+    stream.markdown(
+      '> Usage: `@silver /decide <title>` followed by `context:`, `decision:`, `alternatives:` (`;`-separated), ' +
+      '`modules:` and `people:` lines. Add `--adr` to also write `docs/adr/NNNN-<title>.md`.\n',
+    );
+    return { metadata: {} };
+  }
+
+  const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+  let recorded: RecordedDecision;
+  try {
+    recorded = await recordDecision(svc, input, root?.fsPath);
+  } catch (err) {
+    stream.markdown(`> ⚠️  Could not record the decision: ${(err as Error).message}\n`);
+    return { metadata: {} };
+  }
+
+  stream.markdown(`## 🏛️ Decision recorded: ${input.title}\n\n`);
+  stream.markdown(
+    `| | |\n|---|---|\n` +
+    `| **Modules** | ${recorded.modules.map(m => `\`${m}\``).join(', ') || '—'} |\n` +
+    `| **People** | ${recorded.people.join(', ') || '—'} |\n` +
+    `| **Alternatives** | ${input.alternatives?.join('; ') || '—'} |\n\n`,
+  );
+  if (!input.context) {
+    stream.markdown('> ⚠️  No `context:` given — add it so the decision explains itself later.\n\n');
+  }
+  if (recorded.adrPath && root) {
+    stream.markdown('> 📎 ADR: ');
+    stream.anchor(vscode.Uri.joinPath(root, recorded.adrPath), recorded.adrPath);
+    stream.markdown('\n');
+  } else {
+    stream.markdown('> Run again with `--adr` to also write it to `docs/adr/`.\n');
+  }
   return { metadata: {} };
 }
 
@@ -484,6 +834,7 @@ async function handleGenericQuery(
     svc.vectors.querySimilar(request.prompt, 5),
     Promise.resolve(svc.graph.buildDailySummaryContext()),
   ]);
+  const moduleContext = buildModuleContext(request.prompt, svc);
 
   // Resolve matching skills (progressive disclosure)
   const matchedSkills = await svc.skills.findRelevant(request.prompt);
@@ -492,7 +843,7 @@ async function handleGenericQuery(
     .join('\n\n');
 
   // Build system prompt with all injected context
-  const systemContent = buildSystemPrompt(graphContext, vectorResults, skillsContext);
+  const systemContent = buildSystemPrompt(graphContext, vectorResults, skillsContext, moduleContext);
 
   // Reconstruct the chat history for multi-turn context
   const history = buildHistory(chatContext);
@@ -534,6 +885,7 @@ function buildSystemPrompt(
   graphContext: string,
   vectorResults: Array<{ text: string; score: number }>,
   skillsContext: string,
+  moduleContext = '',
 ): string {
   const parts = [
     'You are Silver Engineer — a senior AI pair-programmer with persistent local memory.',
@@ -544,6 +896,12 @@ function buildSystemPrompt(
     '',
   ];
 
+  if (moduleContext) {
+    parts.push('## Modules in Question');
+    parts.push(moduleContext);
+    parts.push('');
+  }
+
   if (vectorResults.length > 0) {
     parts.push('## Semantically Relevant Past Context');
     for (const r of vectorResults) {
@@ -566,6 +924,41 @@ function buildSystemPrompt(
   return parts.join('\n');
 }
 
+/**
+ * Dependencies of the modules the question names (or of the active editor's
+ * file): what they import, what depends on them downstream, and the
+ * decisions recorded about them.
+ */
+function buildModuleContext(prompt: string, svc: SilverServices): string {
+  const ids = new Set(svc.graph.modulesMentioned(prompt));
+  const active = vscode.window.activeTextEditor?.document.uri;
+  if (active?.scheme === 'file') {
+    svc.graph.resolveModules([vscode.workspace.asRelativePath(active, false)]).forEach(id => ids.add(id));
+  }
+
+  const lines: string[] = [];
+  for (const id of [...ids].slice(0, 5)) {
+    const label = svc.graph.getNode(id)?.label ?? id;
+    const uses = svc.graph.outEdges(id)
+      .filter(([, e]) => e.type === 'DependsOn')
+      .map(([target]) => svc.graph.getNode(target)?.label ?? target);
+    const affected = svc.graph.downstreamOf([id]);
+    const decisions = svc.graph.inEdges(id)
+      .filter(([, e]) => e.type === 'Concerns')
+      .map(([source]) => svc.graph.getNode(source))
+      .filter((node): node is SilverNode => node?.type === 'Decision');
+    if (uses.length === 0 && affected.length === 0 && decisions.length === 0) continue;
+    lines.push(`- \`${label}\``);
+    if (uses.length > 0) lines.push(`  - depends on: ${uses.map(u => `\`${u}\``).join(', ')}`);
+    if (affected.length > 0) lines.push(`  - changes affect downstream: ${describeAffected(affected)}`);
+    for (const d of decisions) {
+      const why = String(d.metadata.decision || d.metadata.context || '').split('\n')[0];
+      lines.push(`  - decision (${String(d.metadata.date ?? '')}): ${d.label}${why ? ` — ${why}` : ''}`);
+    }
+  }
+  return lines.join('\n');
+}
+
 function buildHistory(chatContext: vscode.ChatContext): vscode.LanguageModelChatMessage[] {
   const messages: vscode.LanguageModelChatMessage[] = [];
   for (const turn of chatContext.history) {
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { LlmEndpoint, WorkflowHost } from '../features/workflow-engine/host';
+
+// ---------------------------------------------------------------------------
+// WorkflowHost for the `silver` CLI
+//
+//   workspace  → --cwd (default: current directory)
+//   settings   → silverEngineer.* from .vscode/settings.json, if present
+//   ui         → prompts on the terminal; with no TTY (hooks, CI) every
+//                question counts as cancelled, so only optional inputs pass
+//   tools      → none: VS Code LM / MCP tools do not exist outside the editor
+//   checkpoints → not kept; a failed run is simply re-run
+// ---------------------------------------------------------------------------
+
+export function createCliHost(root: string, llm: LlmEndpoint): WorkflowHost {
+  const settings = readWorkspaceSettings(root);
+  const interactive = process.stdin.isTTY === true;
+
+  return {
+    workspaceRoot: () => root,
+    gitCwd: () => root,
+    setting: <T>(key: string, fallback: T) => (settings[`silverEngineer.${key}`] as T | undefined) ?? fallback,
+    llm,
+
+    ui: {
+      async inputBox({ prompt, placeHolder, validate }) {
+        if (!interactive) return undefined;
+        for (;;) {
+          const answer = await ask(`${prompt}${placeHolder ? ` (${placeHolder})` : ''}: `);
+          const error = answer === undefined ? undefined : validate?.(answer);
+          if (!error) return answer;
+          process.stderr.write(`  ${error}\n`);
+        }
+      },
+      async pick(items, { title, multi }) {
+        if (!interactive) return undefined;
+        process.stdout.write(`${title}\n${items.map((item, i) => `  ${i + 1}) ${item}`).join('\n')}\n`);
+        for (;;) {
+          const answer = await ask(multi ? 'Numbers, comma-separated: ' : 'Number: ');
+          if (answer === undefined) return undefined;
+          const picks = answer.split(',').map(s => s.trim()).filter(Boolean).map(Number);
+          if (picks.every(n => Number.isInteger(n) && n >= 1 && n <= items.length) && (multi || picks.length === 1)) {
+            return picks.map(n => items[n - 1]);
+          }
+          process.stderr.write(`  Enter ${multi ? 'numbers' : 'a number'} between 1 and ${items.length}\n`);
+        }
+      },
+      async confirm(message) {
+        if (!interactive) return false;
+        const answer = await ask(`${message} [y/N] `);
+        return /^y(es)?$/i.test(answer?.trim() ?? '');
+      },
+    },
+
+    tools: {
+      describe: () => undefined,
+      invoke: () => Promise.resolve({}),
+    },
+
+    saveCheckpoint: () => Promise.resolve(),
+    clearCheckpoint: () => Promise.resolve(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+
+/** One line from the terminal; undefined on Ctrl+D. */
+function ask(question: string): Promise<string | undefined> {
+  return new Promise(resolve => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    let answered = false;
+    rl.question(question, answer => { answered = true; rl.close(); resolve(answer); });
+    rl.on('close', () => { if (!answered) resolve(undefined); });
+  });
+}
+
+/**
+ * Reads .vscode/settings.json so the CLI honours the same silverEngineer.*
+ * settings as the editor. Comments and trailing commas are tolerated.
+ */
+function readWorkspaceSettings(root: string): Record<string, unknown> {
+  const file = path.join(root, '.vscode', 'settings.json');
+  if (!fs.existsSync(file)) return {};
+  try {
+    const text = fs.readFileSync(file, 'utf8')
+      .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_, str: string | undefined) => str ?? '')
+      .replace(/,(\s*[}\]])/g, '$1');
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
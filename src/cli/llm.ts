@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import type { CancellationSignal, LlmEndpoint, LlmMessage, LlmModel, LlmRequestOptions } from '../features/workflow-engine/host';
+
+// ---------------------------------------------------------------------------
+// LLM endpoints for the `silver` CLI
+//
+//   openai → any OpenAI-compatible /chat/completions server (OpenAI, Azure
+//            proxies, Ollama, vLLM, LM Studio, …), streamed over SSE
+//   mock   → replies with a fixed text; for hooks and CI runs that exercise
+//            the workflow wiring without a model
+// ---------------------------------------------------------------------------
+
+export interface OpenAiOptions {
+  /** e.g. https://api.openai.com/v1 or http://localhost:11434/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  /** Forces this model; otherwise the step's or agent's `model:` hint, then DEFAULT_MODEL */
+  model?: string;
+}
+
+const DEFAULT_MODEL = 'gpt-4o';
+
+export function createOpenAiEndpoint(options: OpenAiOptions): LlmEndpoint {
+  return {
+    async selectModel(hint) {
+      const name = options.model ?? hint ?? DEFAULT_MODEL;
+      return {
+        name,
+        send: (messages, token, request) => streamChatCompletion(options, name, messages, token, request),
+      };
+    },
+  };
+}
+
+/**
+ * `response` is the reply text, or `@path` to read it from a file.
+ * Defaults to `[PASS]` so agent steps with the usual verdict line pass.
+ */
+export function createMockEndpoint(response = '[PASS]'): LlmEndpoint {
+  const text = response.startsWith('@') ? fs.readFileSync(response.slice(1), 'utf8') : response;
+  const model: LlmModel = {
+    name: 'mock',
+    async *send() {
+      yield text;
+    },
+  };
+  return { selectModel: () => Promise.resolve(model) };
+}
+
+// ---------------------------------------------------------------------------
+
+async function* streamChatCompletion(
+  options: OpenAiOptions,
+  model: string,
+  messages: LlmMessage[],
+  token: CancellationSignal,
+  request?: LlmRequestOptions,
+): AsyncIterable<string> {
+  const abort = new AbortController();
+  const listener = token.onCancellationRequested(() => abort.abort());
+  try {
+    const res = await fetch(`${options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream: true,
+        ...(request?.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request?.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+      }),
+      signal: abort.signal,
+    });
+    if (!res.ok || !res.body) {
+      const detail = (await res.text().catch(() => '')).slice(0, 300);
+      throw new Error(`LLM request failed: HTTP ${res.status}${detail ? ` — ${detail}` : ''}`);
+    }
+
+    // Server-sent events: `data: {json}` lines, terminated by `data: [DONE]`
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const bytes of res.body as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+        const chunk = JSON.parse(data) as { choices?: { delta?: { content?: string } }[] };
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) yield content;
+      }
+    }
+  } catch (err) {
+    if (token.isCancellationRequested) return;
+    throw err;
+  } finally {
+    listener.dispose();
+  }
+}
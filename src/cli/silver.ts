@@ -0,0 +1,200 @@
+import * as path from 'path';
+import { WorkflowEngine } from '../features/workflow-engine/engine';
+import { validateWorkflow } from '../features/workflow-engine/validator';
+import type { CancellationSignal, LlmEndpoint } from '../features/workflow-engine/host';
+import { createCliHost } from './host';
+import { createMockEndpoint, createOpenAiEndpoint } from './llm';
+
+// ---------------------------------------------------------------------------
+// silver — run .github/workflows/silver/*.yml outside VS Code
+//
+//   silver run <workflow> [options]   exit 0 passed · 1 failed/aborted/invalid · 2 usage
+//   silver list [--cwd <dir>]
+//
+// Meant for git hooks and CI: progress is written to stdout as the same
+// markdown @silver /run shows in chat, and the exit code carries the verdict.
+// ---------------------------------------------------------------------------
+
+const USAGE = `Usage:
+  silver run <workflow> [options]
+  silver list [--cwd <dir>]
+
+Options:
+  --cwd <dir>            Workspace root (default: current directory)
+  --var <name=value>     Set a workflow variable; repeatable
+  --dry-run              Plan only — run no step, tool or LLM call
+  --llm <openai|mock>    LLM endpoint (default: $SILVER_LLM or openai)
+  --base-url <url>       OpenAI-compatible base URL
+                         (default: $SILVER_LLM_BASE_URL, $OPENAI_BASE_URL or https://api.openai.com/v1)
+  --model <name>         Model for every step, overriding model: in steps and agents ($SILVER_LLM_MODEL)
+  --mock-response <text> Reply of the mock LLM, or @file (default: [PASS])
+
+The API key is read from $SILVER_LLM_API_KEY or $OPENAI_API_KEY.
+`;
+
+const EXIT_PASSED = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+interface CliArgs {
+  command?: string;
+  workflow?: string;
+  cwd: string;
+  variables: Record<string, string>;
+  dryRun: boolean;
+  llm: string;
+  baseUrl?: string;
+  model?: string;
+  mockResponse?: string;
+}
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    process.stderr.write(`silver: ${err.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (args.command === 'help') {
+    process.stdout.write(USAGE);
+    return EXIT_PASSED;
+  }
+
+  const engine = new WorkflowEngine(createCliHost(args.cwd, createLlm(args)));
+
+  if (args.command === 'list') {
+    const workflows = engine.listWorkflows();
+    if (workflows.length === 0) process.stdout.write('No workflows in .github/workflows/silver/\n');
+    for (const w of workflows) {
+      const errors = w.problems.filter(p => p.severity === 'error').length;
+      process.stdout.write(`${w.name}${errors ? ` (invalid: ${errors} error(s))` : ''}${w.description ? ` — ${w.description}` : ''}\n`);
+    }
+    return EXIT_PASSED;
+  }
+
+  const workflow = engine.loadWorkflow(args.workflow!);
+  const broken = workflow ? undefined : engine.loadError(args.workflow!);
+  if (broken) {
+    process.stderr.write(`silver: workflow "${args.workflow}" does not parse: ${broken.message}${broken.line !== undefined ? ` (line ${broken.line + 1})` : ''}\n`);
+    return EXIT_FAILED;
+  }
+  if (!workflow) {
+    process.stderr.write(`silver: workflow "${args.workflow}" not found in ${path.join(args.cwd, '.github', 'workflows', 'silver')}\n`);
+    return EXIT_FAILED;
+  }
+
+  const errors = validateWorkflow(workflow, n => engine.loadWorkflow(n) ?? undefined)
+    .filter(p => p.severity === 'error');
+  if (errors.length > 0 && !args.dryRun) {
+    process.stderr.write(`silver: workflow "${workflow.name}" is invalid:\n`);
+    for (const p of errors) process.stderr.write(`  ${p.stepId ? `[${p.stepId}] ` : ''}${p.message}\n`);
+    return EXIT_FAILED;
+  }
+
+  const result = await engine.run(
+    workflow,
+    { markdown: v => process.stdout.write(typeof v === 'string' ? v : v.value) },
+    interruptSignal(),
+    { dryRun: args.dryRun, variables: args.variables },
+  );
+  process.stdout.write('\n');
+  return result.passed ? EXIT_PASSED : EXIT_FAILED;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    cwd: process.cwd(),
+    variables: {},
+    dryRun: false,
+    llm: process.env.SILVER_LLM ?? 'openai',
+    baseUrl: process.env.SILVER_LLM_BASE_URL ?? process.env.OPENAI_BASE_URL,
+    model: process.env.SILVER_LLM_MODEL,
+  };
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = (): string => {
+      const v = argv[++i];
+      if (v === undefined) throw new UsageError(`${arg} needs a value`);
+      return v;
+    };
+    switch (arg) {
+      case '--cwd':           args.cwd = path.resolve(value()); break;
+      case '--dry-run':       args.dryRun = true; break;
+      case '--llm':           args.llm = value(); break;
+      case '--base-url':      args.baseUrl = value(); break;
+      case '--model':         args.model = value(); break;
+      case '--mock-response': args.mockResponse = value(); break;
+      case '--var': {
+        const pair = value();
+        const eq = pair.indexOf('=');
+        if (eq < 1) throw new UsageError(`--var expects name=value, got "${pair}"`);
+        args.variables[pair.slice(0, eq)] = pair.slice(eq + 1);
+        break;
+      }
+      case '-h':
+      case '--help':
+        positional.unshift('help');
+        break;
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`unknown option ${arg}`);
+        positional.push(arg);
+    }
+  }
+
+  [args.command, args.workflow] = positional;
+  if (args.command === 'help') return args;
+  if (args.command === 'run' && !args.workflow) throw new UsageError('run needs a workflow name');
+  if (args.command !== 'run' && args.command !== 'list') {
+    throw new UsageError(args.command ? `unknown command ${args.command}` : 'no command given');
+  }
+  if (args.llm !== 'openai' && args.llm !== 'mock') throw new UsageError(`unknown --llm ${args.llm}`);
+  return args;
+}
+
+function createLlm(args: CliArgs): LlmEndpoint {
+  if (args.llm === 'mock') return createMockEndpoint(args.mockResponse);
+  return createOpenAiEndpoint({
+    baseUrl: args.baseUrl ?? 'https://api.openai.com/v1',
+    apiKey: process.env.SILVER_LLM_API_KEY ?? process.env.OPENAI_API_KEY,
+    model: args.model,
+  });
+}
+
+/** Ctrl+C cancels the run (finally steps still run); a second Ctrl+C exits. */
+function interruptSignal(): CancellationSignal {
+  const listeners: (() => void)[] = [];
+  const signal = {
+    isCancellationRequested: false,
+    onCancellationRequested(listener: () => void) {
+      listeners.push(listener);
+      return {
+        dispose: () => {
+          const i = listeners.indexOf(listener);
+          if (i >= 0) listeners.splice(i, 1);
+        },
+      };
+    },
+  };
+  process.on('SIGINT', () => {
+    if (signal.isCancellationRequested) process.exit(130);
+    process.stderr.write('\nsilver: cancelling — press Ctrl+C again to exit now\n');
+    signal.isCancellationRequested = true;
+    for (const l of [...listeners]) l();
+  });
+  return signal;
+}
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  err => {
+    process.stderr.write(`silver: ${err instanceof Error ? err.message : String(err)}\n`);
+    process.exitCode = EXIT_FAILED;
+  },
+);
@@ -84,6 +84,11 @@ const INTENTS: Record<IntentKey, IntentDefinition> = {
   },
 };
 
+/** True if `name` is one of the known intents (e.g. from workflow YAML). */
+export function isIntentKey(name: string): name is IntentKey {
+  return Object.prototype.hasOwnProperty.call(INTENTS, name);
+}
+
 // ---------------------------------------------------------------------------
 // Scoring
 // ---------------------------------------------------------------------------
@@ -8,7 +8,8 @@ import Graph from 'graphology';
 // ---------------------------------------------------------------------------
 
 export type NodeType = 'Person' | 'Technology' | 'Module' | 'Decision' | 'WorkItem';
-export type EdgeType = 'WorksWith' | 'ReviewedBy' | 'UsedIn' | 'Contributed' | 'DependsOn' | 'Resolved';
+export type EdgeType = 'WorksWith' | 'ReviewedBy' | 'UsedIn' | 'Contributed' | 'DependsOn' | 'Resolved'
+  | 'Concerns' | 'DecidedBy';  // Decision → Module / Person
 
 export interface SilverNode {
   type: NodeType;
@@ -20,12 +21,53 @@ export interface SilverNode {
 
 export interface SilverEdge {
   type: EdgeType;
-  weight: number;
+  weight: number;          // as of lastObservedAt — decays from there when read
   metadata: Record<string, unknown>;
+  halfLifeDays?: number;   // overrides silverEngineer.graphHalfLifeDays; 0 = never decays
+  lastObservedAt?: string; // ISO timestamp of the last upsert / reinforcement
+}
+
+/** A module reached by downstreamOf() */
+export interface AffectedModule {
+  id: string;
+  label: string;
+  depth: number;           // 1 = imports a changed module directly
+  via: string;             // label of the module it depends on along the way
+}
+
+/** A Person ranked by findExperts() */
+export interface ExpertMatch {
+  id: string;
+  label: string;
+  email?: string;
+  score: number;           // 0–1, relative to the best match
+  reasons: string[];       // e.g. '12 commit(s) to src'
 }
 
 const GRAPH_FILE = 'knowledge-graph.json';
 const AUTOSAVE_INTERVAL_MS = 60_000; // autosave every 60 s
+const PRUNE_INTERVAL_MS = 6 * 60 * 60_000;
+const DAY_MS = 86_400_000;
+
+// Decay: an edge's weight halves every half-life without a new observation.
+// Pruning drops edges that decayed below the threshold AND went unobserved
+// for at least one half-life (so a fresh low-weight edge survives), then
+// the nodes they leave without any edge. WorkItem and Decision nodes are
+// records rather than observations and are never pruned.
+const UNPRUNED_NODE_TYPES: NodeType[] = ['WorkItem', 'Decision'];
+
+interface DecaySettings {
+  halfLifeDays: number;
+  pruneBelow: number;
+}
+
+// Expert ranking: personalized PageRank restarting at the matched topics.
+// Edges are walked in both directions, in proportion to weight × factor.
+const EXPERT_EDGE_FACTORS: Partial<Record<EdgeType, number>> = {
+  Contributed: 1, ReviewedBy: 0.8, UsedIn: 0.6, WorksWith: 0.4,
+};
+const PAGERANK_RESTART    = 0.3;
+const PAGERANK_ITERATIONS = 40;
 
 // ---------------------------------------------------------------------------
 
@@ -42,6 +84,7 @@ const AUTOSAVE_INTERVAL_MS = 60_000; // autosave every 60 s
 export class GraphStore implements vscode.Disposable {
   private readonly graph = new Graph({ type: 'directed', multi: false, allowSelfLoops: false });
   private saveTimer: ReturnType<typeof setInterval> | undefined;
+  private pruneTimer: ReturnType<typeof setInterval> | undefined;
   private readonly storagePath: string;
 
   constructor(private readonly ctx: vscode.ExtensionContext) {
@@ -62,13 +105,16 @@ export class GraphStore implements vscode.Disposable {
         // no real WorkItem data exists — these were seeded by old versions of
         // scanWorkspace() and carry no useful information.
         this.purgeLegacySeedNodes();
+        this.stampUnobservedEdges();
+        this.prune();
       } catch (err) {
         console.error('[SilverEngineer] Graph load error (will start fresh):', err);
       }
     }
 
-    // Start auto-save timer
+    // Start auto-save and pruning timers
     this.saveTimer = setInterval(() => void this.save(), AUTOSAVE_INTERVAL_MS);
+    this.pruneTimer = setInterval(() => this.prune(), PRUNE_INTERVAL_MS);
   }
 
   async save(): Promise<void> {
@@ -83,11 +129,13 @@ export class GraphStore implements vscode.Disposable {
 
   async clear(): Promise<void> {
     this.graph.clear();
+    this.graph.replaceAttributes({});
     await this.save();
   }
 
   dispose(): void {
     if (this.saveTimer) clearInterval(this.saveTimer);
+    if (this.pruneTimer) clearInterval(this.pruneTimer);
     void this.save();
   }
 
@@ -105,17 +153,154 @@ export class GraphStore implements vscode.Disposable {
     if (!this.graph.hasNode(source) || !this.graph.hasNode(target)) return;
     if (this.graph.hasEdge(source, target)) {
       // Reinforce weight (trust increase on repeated observation)
-      const current = this.graph.getEdgeAttribute(source, target, 'weight') as number ?? 0.5;
-      this.graph.setEdgeAttribute(source, target, 'weight', Math.min(1, current + 0.1));
+      this.reinforceEdge(source, target, 0.1);
     } else {
-      this.graph.addEdge(source, target, attrs);
+      this.graph.addEdge(source, target, { ...attrs, lastObservedAt: new Date().toISOString() });
     }
   }
 
+  getNode(id: string): SilverNode | undefined {
+    return this.graph.hasNode(id) ? this.graph.getNodeAttributes(id) as SilverNode : undefined;
+  }
+
+  /** The edge with its weight decayed to now */
+  getEdge(source: string, target: string): SilverEdge | undefined {
+    if (!this.graph.hasEdge(source, target)) return undefined;
+    const edge = this.graph.getEdgeAttributes(source, target) as SilverEdge;
+    return { ...edge, weight: this.decayedWeight(edge, this.decaySettings(), Date.now()) };
+  }
+
+  /**
+   * Adds the edge or replaces its attributes outright — for ingesters that
+   * compute the weight themselves rather than reinforcing it. The weight
+   * counts as observed now unless `attrs.lastObservedAt` says otherwise.
+   */
+  setEdge(source: string, target: string, attrs: SilverEdge): void {
+    if (!this.graph.hasNode(source) || !this.graph.hasNode(target)) return;
+    const edge = { lastObservedAt: new Date().toISOString(), ...attrs };
+    if (this.graph.hasEdge(source, target)) {
+      this.graph.replaceEdgeAttributes(source, target, edge);
+    } else {
+      this.graph.addEdge(source, target, edge);
+    }
+  }
+
+  /**
+   * Ingestion cursors (e.g. the last ingested commit per repository) live in
+   * the graph's own attributes so they are saved — and cleared — with it.
+   */
+  getCursor(key: string): string | undefined {
+    const cursors = this.graph.getAttribute('cursors') as Record<string, string> | undefined;
+    return cursors?.[key];
+  }
+
+  setCursor(key: string, value: string): void {
+    const cursors = this.graph.getAttribute('cursors') as Record<string, string> | undefined;
+    this.graph.setAttribute('cursors', { ...cursors, [key]: value });
+  }
+
+  /** Ids of every node of the given type */
+  nodeIds(type: SilverNode['type']): string[] {
+    return this.graph.filterNodes((_id, attrs) => (attrs as SilverNode).type === type);
+  }
+
+  /** Outgoing edges of a node as [target, edge] pairs, weights decayed to now */
+  outEdges(source: string): [string, SilverEdge][] {
+    if (!this.graph.hasNode(source)) return [];
+    return this.graph.outNeighbors(source).map(target => [target, this.getEdge(source, target)!]);
+  }
+
+  /** Incoming edges of a node as [source, edge] pairs, weights decayed to now */
+  inEdges(target: string): [string, SilverEdge][] {
+    if (!this.graph.hasNode(target)) return [];
+    return this.graph.inNeighbors(target).map(source => [source, this.getEdge(source, target)!]);
+  }
+
+  /** The Person node for an e-mail address or a (case-insensitive) name */
+  findPerson(nameOrEmail: string): string | undefined {
+    const wanted = nameOrEmail.trim().toLowerCase();
+    if (this.graph.hasNode(`person:${wanted}`)) return `person:${wanted}`;
+    return this.graph.findNode((_id, attrs) => {
+      const node = attrs as SilverNode;
+      return node.type === 'Person'
+        && (node.label.toLowerCase() === wanted || String(node.metadata.email ?? '').toLowerCase() === wanted);
+    });
+  }
+
+  dropEdge(source: string, target: string): void {
+    if (this.graph.hasEdge(source, target)) this.graph.dropEdge(source, target);
+  }
+
+  /** Adds `delta` to the decayed weight (capped at 1) and restarts the decay clock */
   reinforceEdge(source: string, target: string, delta = 0.2): void {
-    if (!this.graph.hasEdge(source, target)) return;
-    const current = this.graph.getEdgeAttribute(source, target, 'weight') as number ?? 0.5;
-    this.graph.setEdgeAttribute(source, target, 'weight', Math.min(1, current + delta));
+    const edge = this.getEdge(source, target);
+    if (!edge) return;
+    this.graph.mergeEdgeAttributes(source, target, {
+      weight: Math.min(1, (edge.weight ?? 0.5) + delta),
+      lastObservedAt: new Date().toISOString(),
+    });
+  }
+
+  // ── Decay & pruning ───────────────────────────────────────────────────────
+
+  /**
+   * Drops stale low-weight edges, then the nodes left without any edge.
+   * Runs on load and every few hours; returns what was removed.
+   */
+  prune(): { edges: number; nodes: number } {
+    const settings = this.decaySettings();
+    const now = Date.now();
+
+    const staleEdges: string[] = [];
+    this.graph.forEachEdge((id, attrs) => {
+      const edge = attrs as SilverEdge;
+      const halfLife = edge.halfLifeDays ?? settings.halfLifeDays;
+      if (halfLife <= 0 || !edge.lastObservedAt) return;
+      const idleDays = (now - Date.parse(edge.lastObservedAt)) / DAY_MS;
+      if (idleDays >= halfLife && this.decayedWeight(edge, settings, now) < settings.pruneBelow) {
+        staleEdges.push(id);
+      }
+    });
+    if (staleEdges.length === 0) return { edges: 0, nodes: 0 };
+    staleEdges.forEach(id => this.graph.dropEdge(id));
+
+    const orphans: string[] = [];
+    this.graph.forEachNode((id, attrs) => {
+      if (this.graph.degree(id) === 0 && !UNPRUNED_NODE_TYPES.includes((attrs as SilverNode).type)) orphans.push(id);
+    });
+    orphans.forEach(id => this.graph.dropNode(id));
+
+    console.log(`[SilverEngineer] Pruned ${staleEdges.length} stale edge(s) and ${orphans.length} orphaned node(s)`);
+    void this.save();
+    return { edges: staleEdges.length, nodes: orphans.length };
+  }
+
+  private decaySettings(): DecaySettings {
+    const config = vscode.workspace.getConfiguration('silverEngineer');
+    return {
+      halfLifeDays: Math.max(0, config.get<number>('graphHalfLifeDays', 90)),
+      pruneBelow:   config.get<number>('graphPruneThreshold', 0.05),
+    };
+  }
+
+  /** weight × ½^(days since lastObservedAt / half-life) */
+  private decayedWeight(edge: SilverEdge, settings: DecaySettings, now: number): number {
+    const weight = edge.weight ?? 0;
+    const halfLife = edge.halfLifeDays ?? settings.halfLifeDays;
+    if (halfLife <= 0 || !edge.lastObservedAt) return weight;
+    const days = Math.max(0, (now - Date.parse(edge.lastObservedAt)) / DAY_MS);
+    return weight * 0.5 ** (days / halfLife);
+  }
+
+  /**
+   * Edges saved before decay existed have no lastObservedAt; they start
+   * decaying from the first load instead of keeping their inflated weight.
+   */
+  private stampUnobservedEdges(): void {
+    const now = new Date().toISOString();
+    this.graph.forEachEdge((id, attrs) => {
+      if (!(attrs as SilverEdge).lastObservedAt) this.graph.setEdgeAttribute(id, 'lastObservedAt', now);
+    });
   }
 
   // ── Queries ──────────────────────────────────────────────────────────────
@@ -179,6 +364,140 @@ export class GraphStore implements vscode.Disposable {
     return lines.join('\n');
   }
 
+  /**
+   * Ranks Person nodes by how close they are to the given topics — file
+   * paths, module names or technologies. A path matches the Module of its
+   * top-level directory; other topics match Module / Technology labels
+   * (exactly, or as a substring at half strength). Scores come from a
+   * personalized PageRank over Contributed, ReviewedBy, WorksWith and
+   * UsedIn edges, so reviewers of a module and close collaborators of its
+   * authors rank too, below the authors themselves.
+   * `exclude` drops Person ids (e.g. the change's own author).
+   */
+  findExperts(topics: string[], options: { limit?: number; exclude?: string[] } = {}): ExpertMatch[] {
+    const seeds = this.matchTopics(topics);
+    if (seeds.size === 0) return [];
+
+    // Undirected weighted adjacency over the expertise edges
+    const neighbours = new Map<string, [string, number][]>();
+    const link = (a: string, b: string, w: number): void => {
+      const list = neighbours.get(a);
+      if (list) list.push([b, w]); else neighbours.set(a, [[b, w]]);
+    };
+    const settings = this.decaySettings();
+    const now = Date.now();
+    this.graph.forEachEdge((_id, attrs, source, target) => {
+      const edge = attrs as SilverEdge;
+      const w = this.decayedWeight(edge, settings, now) * (EXPERT_EDGE_FACTORS[edge.type] ?? 0);
+      if (w <= 0) return;
+      link(source, target, w);
+      link(target, source, w);
+    });
+
+    let rank = new Map(seeds);
+    for (let i = 0; i < PAGERANK_ITERATIONS; i++) {
+      const next = new Map<string, number>();
+      const add = (id: string, v: number): void => { next.set(id, (next.get(id) ?? 0) + v); };
+      seeds.forEach((p, id) => add(id, PAGERANK_RESTART * p));
+      rank.forEach((r, id) => {
+        const list = neighbours.get(id) ?? [];
+        const total = list.reduce((sum, [, w]) => sum + w, 0);
+        if (total === 0) {
+          seeds.forEach((p, seed) => add(seed, (1 - PAGERANK_RESTART) * r * p)); // dead end → restart
+        } else {
+          list.forEach(([to, w]) => add(to, (1 - PAGERANK_RESTART) * r * w / total));
+        }
+      });
+      rank = next;
+    }
+
+    const exclude = new Set(options.exclude ?? []);
+    const people = [...rank]
+      .filter(([id, r]) => r > 0 && !exclude.has(id) && (this.graph.getNodeAttributes(id) as SilverNode).type === 'Person')
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, options.limit ?? 5);
+    const best = people[0]?.[1] ?? 1;
+
+    return people.map(([id, r]) => {
+      const node = this.graph.getNodeAttributes(id) as SilverNode;
+      return {
+        id,
+        label: node.label,
+        email: typeof node.metadata.email === 'string' && node.metadata.email ? node.metadata.email : undefined,
+        score: r / best,
+        reasons: this.expertReasons(id, seeds),
+      };
+    });
+  }
+
+  /**
+   * Module node ids for paths or module names: the exact Module, else the
+   * deepest Module whose directory contains the path (e.g.
+   * 'src/core/storage/graph.ts' → module:src/core/storage before module:src).
+   */
+  resolveModules(topics: string[]): string[] {
+    const labels = new Map<string, string>();
+    this.graph.forEachNode((id, attrs) => {
+      const node = attrs as SilverNode;
+      if (node.type === 'Module') labels.set(node.label.toLowerCase(), id);
+    });
+
+    const found = new Set<string>();
+    for (const topic of topics.map(normalizeTopic).filter(Boolean)) {
+      for (let dir = topic; dir; dir = dir.includes('/') ? dir.slice(0, dir.lastIndexOf('/')) : '') {
+        const id = labels.get(dir);
+        if (id) { found.add(id); break; }
+      }
+    }
+    return [...found];
+  }
+
+  /**
+   * Modules a free-text question is about: paths in the text, plus Module
+   * labels (or their last path segment, 4+ characters) named as a word.
+   */
+  modulesMentioned(text: string): string[] {
+    const words = text.split(/[\s,;:'"`()?!]+/).filter(Boolean);
+    const found = new Set(this.resolveModules(words.filter(w => w.includes('/'))));
+    const lower = new Set(words.map(w => w.toLowerCase().replace(/\.$/, '')));
+    this.graph.forEachNode((id, attrs) => {
+      const node = attrs as SilverNode;
+      if (node.type !== 'Module') return;
+      const label = node.label.toLowerCase();
+      const last = label.slice(label.lastIndexOf('/') + 1);
+      if (lower.has(label) || (last.length >= 4 && lower.has(last))) found.add(id);
+    });
+    return [...found];
+  }
+
+  /**
+   * Modules that (transitively, up to `maxDepth` hops) depend on the given
+   * ones — what a change to them may break downstream. Nearest first.
+   */
+  downstreamOf(moduleIds: string[], maxDepth = 3): AffectedModule[] {
+    const seen = new Set(moduleIds.filter(id => this.graph.hasNode(id)));
+    const affected: AffectedModule[] = [];
+    let frontier = [...seen];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        this.graph.forEachInEdge(id, (_edge, attrs, source) => {
+          if ((attrs as SilverEdge).type !== 'DependsOn' || seen.has(source)) return;
+          seen.add(source);
+          next.push(source);
+          affected.push({
+            id: source,
+            label: (this.graph.getNodeAttributes(source) as SilverNode).label,
+            depth,
+            via: (this.graph.getNodeAttributes(id) as SilverNode).label,
+          });
+        });
+      }
+      frontier = next;
+    }
+    return affected;
+  }
+
   /**
    * Returns true only when the graph contains actual work items (tickets,
    * tasks, bugs). Tech stack and person nodes alone are NOT actionable data
@@ -194,7 +513,8 @@ export class GraphStore implements vscode.Disposable {
 
   /**
    * Removes Technology and Person nodes that were auto-seeded by old versions
-   * of scanWorkspace() when no real WorkItem data exists.
+   * of scanWorkspace() when no real WorkItem data exists. Nodes that record
+   * an ingestion `metadata.source` (e.g. 'git') are real data and are kept.
    * Safe to call on every load — a no-op if graph is already clean.
    */
   private purgeLegacySeedNodes(): void {
@@ -202,8 +522,9 @@ export class GraphStore implements vscode.Disposable {
 
     const toRemove: string[] = [];
     this.graph.forEachNode((id, attrs) => {
-      const type = (attrs as SilverNode).type;
-      if (type === 'Technology' || type === 'Person') toRemove.push(id);
+      const node = attrs as SilverNode;
+      if (node.metadata?.source) return;
+      if (node.type === 'Technology' || node.type === 'Person') toRemove.push(id);
     });
 
     if (toRemove.length > 0) {
@@ -213,6 +534,47 @@ export class GraphStore implements vscode.Disposable {
     }
   }
 
+  /** Topic → seed distribution over Module / Technology nodes (sums to 1) */
+  private matchTopics(topics: string[]): Map<string, number> {
+    const seeds = new Map<string, number>();
+    const wanted = topics.map(normalizeTopic).filter(Boolean);
+
+    this.graph.forEachNode((id, attrs) => {
+      const node = attrs as SilverNode;
+      if (node.type !== 'Module' && node.type !== 'Technology') return;
+      const label = node.label.toLowerCase();
+      let strength = 0;
+      for (const topic of wanted) {
+        if (topic === label || topic.startsWith(`${label}/`)) strength += 1;
+        else if (topic.length >= 3 && label.includes(topic)) strength += 0.5;
+      }
+      if (strength > 0) seeds.set(id, strength);
+    });
+
+    const total = [...seeds.values()].reduce((a, b) => a + b, 0);
+    seeds.forEach((v, id) => seeds.set(id, v / total));
+    return seeds;
+  }
+
+  /** Why a person ranks: their direct links to the matched topics */
+  private expertReasons(personId: string, seeds: Map<string, number>): string[] {
+    const reasons: string[] = [];
+    for (const seed of seeds.keys()) {
+      const label = (this.graph.getNodeAttributes(seed) as SilverNode).label;
+      const contributed = this.getEdge(personId, seed);
+      if (contributed?.type === 'Contributed') {
+        reasons.push(`${Number(contributed.metadata.commits) || 1} commit(s) to ${label}`);
+      } else if (contributed?.type === 'UsedIn') {
+        reasons.push(`uses ${label}`);
+      }
+      const reviewed = this.getEdge(seed, personId);
+      if (reviewed?.type === 'ReviewedBy') {
+        reasons.push(`reviewed ${Number(reviewed.metadata.commits) || 1} change(s) in ${label}`);
+      }
+    }
+    return reasons.length > 0 ? reasons : ['works with its contributors'];
+  }
+
   /** Export graph data for Webview visualisation */
   exportForVisualisation(): { nodes: unknown[]; edges: unknown[] } {
     const nodes: unknown[] = [];
@@ -221,8 +583,11 @@ export class GraphStore implements vscode.Disposable {
     this.graph.forEachNode((id, attrs) => {
       nodes.push({ id, ...(attrs as SilverNode) });
     });
+    const settings = this.decaySettings();
+    const now = Date.now();
     this.graph.forEachEdge((id, attrs, source, target) => {
-      edges.push({ id, source, target, ...(attrs as SilverEdge) });
+      const edge = attrs as SilverEdge;
+      edges.push({ id, source, target, ...edge, weight: this.decayedWeight(edge, settings, now) });
     });
 
     return { nodes, edges };
@@ -323,3 +688,10 @@ export class GraphStore implements vscode.Disposable {
     this.upsertEdge(userId, id, { type: 'UsedIn', weight: 0.8, metadata: {} });
   }
 }
+
+// ---------------------------------------------------------------------------
+
+/** 'src\core\' / './src/core/' → 'src/core' (lower case) */
+function normalizeTopic(topic: string): string {
+  return topic.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '').toLowerCase();
+}
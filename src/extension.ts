@@ -10,6 +10,13 @@ import { NotificationManager } from './features/morning-briefing';
 import { DashboardPanel, SilverDashboardViewProvider } from './webview/panel';
 import { ToolDiscovery } from './core/mcp/discovery';
 import { WorkflowEngine } from './features/workflow-engine/engine';
+import { createVsCodeHost } from './features/workflow-engine/vscode-host';
+import { RunHistory } from './features/workflow-engine/history';
+import { WorkflowDiagnostics } from './features/workflow-engine/diagnostics';
+import { WorkflowTriggerManager } from './features/workflow-engine/triggers';
+import { newWorkflowFromTemplate } from './features/workflow-engine/scaffold';
+import { GitHistoryIngester } from './features/knowledge-graph/git-history';
+import { DependencyAnalyzer } from './features/knowledge-graph/dependencies';
 import type { SilverServices } from './types';
 
 export type { SilverServices };
@@ -26,12 +33,13 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   const graph   = new GraphStore(context);
   const vectors = new VectorStore(context);
   const skills  = new SkillsLoader();
+  const runs    = new RunHistory(context, secrets);
 
-  // Build partial services first so ToolRegistry can hold a reference;
-  // the tools property is filled in immediately after.
+  // Build partial services first so ToolRegistry and WorkflowEngine can hold
+  // a reference; the remaining properties are filled in immediately after.
   const discovery = new ToolDiscovery();
-  const workflows  = new WorkflowEngine();
-  const partial = { secrets, graph, vectors, skills, discovery, workflows } as SilverServices;
+  const partial = { secrets, graph, vectors, skills, discovery, runs } as SilverServices;
+  partial.workflows = new WorkflowEngine(createVsCodeHost(partial));
   const tools   = new ToolRegistry(context, partial);
   partial.tools  = tools;
   services = partial;
@@ -51,6 +59,14 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     ),
   );
 
+  // ── Workflow triggers (started with the background tasks) ───────────────
+  const triggers = new WorkflowTriggerManager(services);
+  context.subscriptions.push(triggers);
+
+  // ── Module dependencies (watcher started with the background tasks) ────
+  const dependencies = new DependencyAnalyzer(graph);
+  context.subscriptions.push(dependencies);
+
   // ── VS Code commands ────────────────────────────────────────────────────
   context.subscriptions.push(
     vscode.commands.registerCommand('silver-engineer.openDashboard', () => {
@@ -78,23 +94,89 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     vscode.commands.registerCommand('silver-engineer.configureSecrets', async () => {
       await secrets.promptAll();
     }),
-    vscode.commands.registerCommand('silver-engineer.pushToGerrit', async () => {
+    vscode.commands.registerCommand('silver-engineer.pushToGerrit', async (reviewers?: string[]) => {
       const config = vscode.workspace.getConfiguration('silverEngineer');
       const branch = config.get<string>('gerritTargetBranch', 'main');
-      const result = await services!.tools.invokeWithConfirmation('silver_push_gerrit', { branch });
+      const result = await services!.tools.invokeWithConfirmation('silver_push_gerrit', { branch, reviewers });
       if (result?.success) {
         vscode.window.showInformationMessage(`Silver Engineer: ${result.output}`);
+      } else if (result) {
+        vscode.window.showErrorMessage(`Silver Engineer: ${result.output}`);
       }
     }),
+    vscode.commands.registerCommand('silver-engineer.stopBackgroundWorkflows', () => {
+      const stopped = triggers.stopAll();
+      vscode.window.showInformationMessage(
+        stopped ? `Silver Engineer: Stopping ${stopped} background workflow(s).` : 'Silver Engineer: No background workflows running.',
+      );
+    }),
+    vscode.commands.registerCommand('silver-engineer.debugWorkflow', async () => {
+      const runnable = services!.workflows.listWorkflows().filter(w => !w.problems.some(p => p.severity === 'error'));
+      if (runnable.length === 0) {
+        vscode.window.showInformationMessage('Silver Engineer: No valid workflows in .github/workflows/silver/.');
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        runnable.map(w => ({ label: w.name, description: w.description })),
+        { title: 'Debug Workflow', placeHolder: 'Pick a workflow to step through' },
+      );
+      if (picked) {
+        await vscode.commands.executeCommand('workbench.action.chat.open', { query: `@silver /run ${picked.label} --debug` });
+      }
+    }),
+    vscode.commands.registerCommand('silver-engineer.newWorkflowFromTemplate', async () => {
+      await newWorkflowFromTemplate(context.extensionUri);
+    }),
+    vscode.commands.registerCommand('silver-engineer.ingestGitHistory', async () => {
+      try {
+        const summary = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Window, title: 'Silver Engineer: Reading git history…' },
+          () => ingestGitHistory(graph),
+        );
+        vscode.window.showInformationMessage(`Silver Engineer: ${summary}`);
+      } catch (err) {
+        vscode.window.showErrorMessage(`Silver Engineer: git history ingest failed — ${(err as Error).message}`);
+      }
+    }),
+    vscode.commands.registerCommand('silver-engineer.analyzeDependencies', async () => {
+      const result = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Silver Engineer: Analyzing module dependencies…', cancellable: true },
+        (_progress, token) => dependencies.analyzeWorkspace(token),
+      );
+      vscode.window.showInformationMessage(
+        `Silver Engineer: ${result.edges} dependenc${result.edges === 1 ? 'y' : 'ies'} between ${result.modules} module(s) from ${result.files} file(s).`,
+      );
+    }),
   );
 
   // ── Background startup tasks (non-blocking) ─────────────────────────────
   // These run after activation returns — no await — keeping startup fast.
-  void runBackgroundStartup(context, services);
+  void runBackgroundStartup(context, services, triggers, dependencies);
 }
 
 export function deactivate(): void {}
 
+// ---------------------------------------------------------------------------
+// Git history → knowledge graph
+// ---------------------------------------------------------------------------
+
+/** Ingests every workspace folder's repository once; returns a one-line summary. */
+async function ingestGitHistory(graph: GraphStore): Promise<string> {
+  const ingester = new GitHistoryIngester(graph);
+  const seen = new Set<string>();
+  let commits = 0;
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const result = await ingester.ingest(folder.uri.fsPath).catch(() => undefined); // not a repository
+    if (!result || seen.has(result.repository)) continue;
+    seen.add(result.repository);
+    commits += result.commits;
+  }
+  if (seen.size === 0) throw new Error('no git repository in the workspace');
+  return commits
+    ? `Ingested ${commits} new commit(s) from ${seen.size} repositor${seen.size === 1 ? 'y' : 'ies'}.`
+    : 'Git history is up to date.';
+}
+
 // ---------------------------------------------------------------------------
 // Background startup (runs post-activation, non-blocking)
 // ---------------------------------------------------------------------------
@@ -102,12 +184,25 @@ export function deactivate(): void {}
 async function runBackgroundStartup(
   context: vscode.ExtensionContext,
   svc: SilverServices,
+  triggers: WorkflowTriggerManager,
+  dependencies: DependencyAnalyzer,
 ): Promise<void> {
   try {
     // 1. Restore persisted knowledge graph and vector store
     await svc.graph.load();
     await svc.vectors.load();
 
+    // 1b. Fold new commits into the graph (incremental from the last ingest)
+    if (vscode.workspace.getConfiguration('silverEngineer').get<boolean>('ingestGitHistory', true)) {
+      ingestGitHistory(svc.graph).then(
+        summary => console.log(`[SilverEngineer] ${summary}`),
+        err => console.warn('[SilverEngineer] Git history ingest skipped:', (err as Error).message),
+      );
+    }
+
+    // 1c. Keep analysed module dependencies current as sources change
+    dependencies.start();
+
     // 2. Load built-in + user-defined skills
     await svc.skills.load();
 
@@ -116,7 +211,15 @@ async function runBackgroundStartup(
     await watcher.start();
     context.subscriptions.push(watcher);
 
-    // 4. Daily summary notification (respects lastNotificationDate guard)
+    // 4. Validate workflow YAML into the Problems panel
+    const diagnostics = new WorkflowDiagnostics(name => svc.workflows.loadWorkflow(name) ?? undefined);
+    context.subscriptions.push(diagnostics);
+    await diagnostics.start();
+
+    // 5. Start workflow triggers (on save / commit / checkout / schedule)
+    await triggers.start();
+
+    // 6. Daily summary notification (respects lastNotificationDate guard)
     const config = vscode.workspace.getConfiguration('silverEngineer');
     if (config.get<boolean>('enableDailySummary', true)) {
       await NotificationManager.maybeShowDailySummary(context, svc);
@@ -0,0 +1,227 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import type { SilverServices } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Architecture decisions — Decision nodes, optionally mirrored as ADRs
+//
+//   decision:<slug> ─Concerns─▶ module:<dir>     one per linked module
+//   decision:<slug> ─DecidedBy─▶ person:<email>  one per linked person
+//
+// The decision's text is indexed in the VectorStore under the node id, so
+// generic questions find it semantically as well as through its modules.
+// Recording the same title again updates the decision in place; with
+// `writeAdr` it also (re)writes docs/adr/NNNN-<slug>.md, keeping the number
+// of an existing ADR for that slug.
+// ---------------------------------------------------------------------------
+
+const ADR_DIR = 'docs/adr';
+
+export interface DecisionInput {
+  title: string;
+  context: string;
+  decision?: string;        // what was chosen, when not obvious from the title
+  alternatives?: string[];
+  modules?: string[];       // paths or module names
+  people?: string[];        // names or e-mail addresses
+  writeAdr?: boolean;
+}
+
+export interface RecordedDecision {
+  id: string;
+  modules: string[];        // Module labels
+  people: string[];         // Person labels
+  adrPath?: string;         // workspace-relative
+}
+
+/**
+ * Stores the decision in the graph and the vector store; writes the ADR
+ * when asked and `root` (the workspace folder) is given.
+ */
+export async function recordDecision(svc: SilverServices, input: DecisionInput, root?: string): Promise<RecordedDecision> {
+  const title = input.title.trim();
+  if (!title) throw new Error('a decision needs a title');
+
+  const slug = slugify(title);
+  const id = `decision:${slug}`;
+  const date = new Date().toISOString().slice(0, 10);
+  const now = new Date().toISOString();
+
+  const node = svc.graph.getNode(id);
+  if (node && node.label !== title) {
+    throw new Error(`"${title}" maps to the same id as the recorded decision "${node.label}" — reword the title`);
+  }
+  const existing = node?.metadata ?? {};
+  const adrPath = input.writeAdr && root
+    ? await writeAdr(root, slug, title, date, input)
+    : typeof existing.adrPath === 'string' ? existing.adrPath : undefined;
+
+  svc.graph.upsertNode(id, {
+    type: 'Decision',
+    label: title,
+    weight: 1,
+    metadata: {
+      source: 'decision',
+      context: input.context,
+      decision: input.decision ?? '',
+      alternatives: input.alternatives ?? [],
+      date: typeof existing.date === 'string' ? existing.date : date,
+      ...(adrPath ? { adrPath } : {}),
+    },
+    updatedAt: now,
+  });
+
+  // Re-recording replaces the links rather than adding to them
+  for (const [target, edge] of svc.graph.outEdges(id)) {
+    if (edge.type === 'Concerns' || edge.type === 'DecidedBy') svc.graph.dropEdge(id, target);
+  }
+
+  const modules = (input.modules ?? []).filter(m => m.trim()).map(m => linkModule(svc, id, m));
+  const people  = (input.people ?? []).filter(p => p.trim()).map(p => linkPerson(svc, id, p));
+  await svc.graph.save();
+
+  await svc.vectors.upsert({
+    id,
+    text: decisionText(title, input, modules),
+    metadata: { kind: 'decision', title, modules: modules.join(', ') },
+  });
+
+  return { id, modules, people, adrPath };
+}
+
+/**
+ * Parses `/decide` text: the first line is the title; `context:`,
+ * `decision:`, `alternatives:`, `modules:` and `people:` lines (continued
+ * on following lines) fill the rest. Unlabelled lines count as context.
+ * `--adr` anywhere asks for the ADR file.
+ */
+export function parseDecisionPrompt(text: string): DecisionInput {
+  const writeAdr = /(^|\s)--adr\b/.test(text);
+  const lines = text.replace(/(^|\s)--adr\b/g, ' ').split('\n');
+  const fields: Record<string, string[]> = { context: [], decision: [], alternatives: [], modules: [], people: [] };
+
+  const title = (lines.shift() ?? '').trim();
+  let current = 'context';
+  for (const line of lines) {
+    const m = /^\s*(context|decision|alternatives|modules|people)\s*:\s*(.*)$/i.exec(line);
+    if (m) {
+      current = m[1].toLowerCase();
+      if (m[2].trim()) fields[current].push(m[2].trim());
+    } else if (line.trim()) {
+      fields[current].push(line.trim().replace(/^[-*]\s+/, ''));
+    }
+  }
+
+  const list = (values: string[], separator: RegExp): string[] =>
+    values.flatMap(v => v.split(separator)).map(v => v.trim()).filter(Boolean);
+
+  return {
+    title,
+    context: fields.context.join('\n'),
+    decision: fields.decision.join('\n') || undefined,
+    alternatives: list(fields.alternatives, /;/),
+    modules: list(fields.modules, /[,;\s]+/),
+    people: list(fields.people, /[,;]/),
+    writeAdr,
+  };
+}
+
+// ── Private helpers ────────────────────────────────────────────────────────
+
+/** Links an existing Module (the deepest containing a path) or creates one */
+function linkModule(svc: SilverServices, decisionId: string, moduleName: string): string {
+  const dir = moduleName.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  let moduleId = svc.graph.resolveModules([dir])[0];
+  if (!moduleId) {
+    moduleId = `module:${dir}`;
+    svc.graph.upsertNode(moduleId, {
+      type: 'Module', label: dir, weight: 0.5,
+      metadata: { source: 'decision', path: dir }, updatedAt: new Date().toISOString(),
+    });
+  }
+  svc.graph.setEdge(decisionId, moduleId, { type: 'Concerns', weight: 1, halfLifeDays: 0, metadata: { source: 'decision' } });
+  return svc.graph.getNode(moduleId)?.label ?? dir;
+}
+
+/** Links an existing Person (by e-mail or name) or creates one */
+function linkPerson(svc: SilverServices, decisionId: string, who: string): string {
+  const m = /^(.*?)\s*<([^>]+)>\s*$/.exec(who.trim());
+  const name = (m ? m[1] : who).trim();
+  const email = m ? m[2].trim().toLowerCase() : /@/.test(name) ? name.toLowerCase() : '';
+
+  let personId = (email && svc.graph.findPerson(email)) || svc.graph.findPerson(name);
+  if (!personId) {
+    personId = `person:${(email || name).toLowerCase()}`;
+    svc.graph.upsertNode(personId, {
+      type: 'Person', label: name || email, weight: 0.5,
+      metadata: { source: 'decision', ...(email ? { email } : {}) }, updatedAt: new Date().toISOString(),
+    });
+  }
+  svc.graph.setEdge(decisionId, personId, { type: 'DecidedBy', weight: 1, halfLifeDays: 0, metadata: { source: 'decision' } });
+  return svc.graph.getNode(personId)?.label ?? name;
+}
+
+function decisionText(title: string, input: DecisionInput, modules: string[]): string {
+  return [
+    `Decision: ${title}`,
+    input.context && `Context: ${input.context}`,
+    input.decision && `Outcome: ${input.decision}`,
+    input.alternatives?.length && `Alternatives considered: ${input.alternatives.join('; ')}`,
+    modules.length && `Modules: ${modules.join(', ')}`,
+  ].filter(Boolean).join('\n');
+}
+
+/** Writes docs/adr/NNNN-<slug>.md (Nygard format); returns its relative path */
+async function writeAdr(root: string, slug: string, title: string, date: string, input: DecisionInput): Promise<string> {
+  const dir = path.join(root, ADR_DIR);
+  await fs.promises.mkdir(dir, { recursive: true });
+  const names = await fs.promises.readdir(dir);
+
+  const same = names.find(n => /^\d{4}-/.test(n) && n.slice(5) === `${slug}.md`);
+  const highest = Math.max(0, ...names.map(n => Number(/^(\d{4})-/.exec(n)?.[1] ?? 0)));
+  const fileName = same ?? `${String(highest + 1).padStart(4, '0')}-${slug}.md`;
+  const number = Number(fileName.slice(0, 4));
+
+  const lines = [
+    `# ${number}. ${title}`,
+    '',
+    `Date: ${date}`,
+    '',
+    '## Status',
+    '',
+    'Accepted',
+    '',
+    '## Context',
+    '',
+    input.context || '_Not recorded._',
+    '',
+    '## Decision',
+    '',
+    input.decision || title,
+    '',
+  ];
+  if (input.alternatives?.length) {
+    lines.push('## Alternatives considered', '', ...input.alternatives.map(a => `- ${a}`), '');
+  }
+  if (input.modules?.length || input.people?.length) {
+    lines.push('## Links', '');
+    if (input.modules?.length) lines.push(`- Modules: ${input.modules.map(m => `\`${m}\``).join(', ')}`);
+    if (input.people?.length)  lines.push(`- People: ${input.people.join(', ')}`);
+    lines.push('');
+  }
+
+  await fs.promises.writeFile(path.join(dir, fileName), lines.join('\n'), 'utf8');
+  return `${ADR_DIR}/${fileName}`;
+}
+
+/**
+ * 'Use SQLite for run history' → 'use-sqlite-for-run-history'. Accents are
+ * transliterated ('Dùng SQLite' → 'dung-sqlite'); a title with nothing left
+ * (CJK, emoji) gets a short hash of itself instead.
+ */
+function slugify(title: string): string {
+  const ascii = title.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D');
+  const slug = ascii.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60).replace(/-+$/, '');
+  return slug || `decision-${createHash('sha1').update(title).digest('hex').slice(0, 8)}`;
+}
@@ -0,0 +1,313 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import type { GraphStore } from '../../core/storage/graph';
+
+// ---------------------------------------------------------------------------
+// Module dependency analyzer — DependsOn edges from source imports
+//
+//   TypeScript / JavaScript  import … from './x', export … from, require(), import()
+//   Python                   import a.b, from a.b import c, from ..pkg import d
+//   C / C++                  #include "x.h"
+//
+// A module is a source directory (workspace-relative, '.' for the root), so
+// `src/chat/participant.ts` importing '../core/storage/graph' gives
+// module:src/chat ─DependsOn─▶ module:src/core/storage. Only imports that
+// resolve to a file in the workspace count — packages, the standard library
+// and <system> headers are skipped; an include found in no include path is
+// matched by file name when exactly one header has that name.
+//
+// Each edge lists the importing files in `metadata.files`, which is what
+// makes incremental updates possible: a changed file is removed from the
+// edges of its module and re-added to the ones it still imports. The watcher
+// only updates a workspace folder after its first full analysis.
+// ---------------------------------------------------------------------------
+
+type Language = 'js' | 'python' | 'c';
+
+const EXTENSIONS: Record<string, Language> = {
+  '.ts': 'js', '.tsx': 'js', '.mts': 'js', '.cts': 'js',
+  '.js': 'js', '.jsx': 'js', '.mjs': 'js', '.cjs': 'js',
+  '.py': 'python',
+  '.c': 'c', '.cc': 'c', '.cpp': 'c', '.cxx': 'c',
+  '.h': 'c', '.hh': 'c', '.hpp': 'c', '.hxx': 'c', '.ipp': 'c',
+};
+const HEADER_EXTENSIONS = ['.h', '.hh', '.hpp', '.hxx', '.ipp'];
+
+const SOURCE_GLOB  = '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs,py,c,cc,cpp,cxx,h,hh,hpp,hxx,ipp}';
+const EXCLUDE_GLOB = '**/{node_modules,.git,dist,out,build,.venv,venv,__pycache__,third_party,vendor}/**';
+const EXCLUDED_DIR = /(^|\/)(node_modules|\.git|dist|out|build|\.venv|venv|__pycache__|third_party|vendor)\//;
+const MAX_FILES = 20_000;
+const MAX_FILE_BYTES = 1024 * 1024;
+const WATCH_DEBOUNCE_MS = 500;
+
+export interface DependencyAnalysisResult {
+  files: number;
+  modules: number;
+  edges: number;
+}
+
+export class DependencyAnalyzer implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly pending = new Map<string, NodeJS.Timeout>();
+  /** header file name → absolute paths, per workspace folder root */
+  private readonly headers = new Map<string, Map<string, string[]>>();
+
+  constructor(private readonly graph: GraphStore) {}
+
+  /** Rebuilds every workspace folder's import edges from scratch */
+  async analyzeWorkspace(token?: vscode.CancellationToken): Promise<DependencyAnalysisResult> {
+    const result: DependencyAnalysisResult = { files: 0, modules: 0, edges: 0 };
+    const modules = new Set<string>();
+    const edges = new Set<string>();
+    const sources = new Set<string>();
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const root = folder.uri.fsPath;
+      const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, SOURCE_GLOB), EXCLUDE_GLOB, MAX_FILES, token);
+      const files = uris.map(u => u.fsPath);
+      this.headers.set(root, indexHeaders(files));
+      const folderModules = files.map(f => moduleOf(root, f));
+      folderModules.forEach(m => sources.add(m));
+      this.dropImportEdges(folderModules);
+
+      for (const file of files) {
+        if (token?.isCancellationRequested) return result;
+        const targets = await this.importsOf(root, file);
+        this.updateFile(root, file, targets);
+        result.files++;
+        const from = moduleOf(root, file);
+        modules.add(from);
+        targets.forEach(t => { modules.add(t); edges.add(`${from}>${t}`); });
+      }
+      this.graph.setCursor(`imports:${root}`, new Date().toISOString());
+    }
+
+    // Directories that no longer hold source files keep no dependencies
+    this.dropImportEdges(this.graph.nodeIds('Module').filter(id => !sources.has(id)));
+
+    result.modules = modules.size;
+    result.edges = edges.size;
+    await this.graph.save();
+    return result;
+  }
+
+  /** Keeps analysed folders up to date as source files change */
+  start(): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(SOURCE_GLOB);
+    watcher.onDidCreate(uri => this.schedule(uri, true));
+    watcher.onDidChange(uri => this.schedule(uri, true));
+    watcher.onDidDelete(uri => this.schedule(uri, false));
+    this.disposables.push(watcher);
+  }
+
+  dispose(): void {
+    this.pending.forEach(timer => clearTimeout(timer));
+    this.pending.clear();
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  // ── Private helpers ──────────────────────────────────────────────────────
+
+  private schedule(uri: vscode.Uri, exists: boolean): void {
+    const root = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+    if (!root || !this.graph.getCursor(`imports:${root}`)) return; // never analysed
+    const rel = path.relative(root, uri.fsPath).replace(/\\/g, '/');
+    if (EXCLUDED_DIR.test(rel)) return;
+
+    const file = uri.fsPath;
+    clearTimeout(this.pending.get(file));
+    this.pending.set(file, setTimeout(() => {
+      this.pending.delete(file);
+      this.updateHeaderIndex(root, file, exists);
+      const targets = exists ? this.importsOf(root, file) : Promise.resolve(new Set<string>());
+      targets.then(
+        t => this.updateFile(root, file, t),
+        err => console.warn('[SilverEngineer] Import analysis failed:', file, err),
+      );
+    }, WATCH_DEBOUNCE_MS));
+  }
+
+  /** Module ids the file imports (its own module excluded) */
+  private async importsOf(root: string, file: string): Promise<Set<string>> {
+    const language = EXTENSIONS[path.extname(file).toLowerCase()];
+    const targets = new Set<string>();
+    if (!language) return targets;
+
+    const stat = await fs.promises.stat(file).catch(() => undefined);
+    if (!stat || stat.size > MAX_FILE_BYTES) return targets;
+    const text = await fs.promises.readFile(file, 'utf8').catch(() => undefined);
+    if (text === undefined) return targets; // deleted or unreadable since it was listed
+
+    const own = moduleOf(root, file);
+    for (const spec of parseImports(language, text)) {
+      const dir = resolveImport(language, spec, file, root, this.headers.get(root));
+      if (!dir) continue;
+      const rel = path.relative(root, dir);
+      if (rel.startsWith('..') || path.isAbsolute(rel)) continue; // outside the folder
+      const target = moduleId(rel);
+      if (target !== own) targets.add(target);
+    }
+    return targets;
+  }
+
+  /**
+   * Moves `file` onto exactly the DependsOn edges of `targets`: removed from
+   * edges it no longer feeds (dropping emptied ones), added to the rest.
+   */
+  private updateFile(root: string, file: string, targets: Set<string>): void {
+    const rel = path.relative(root, file).replace(/\\/g, '/');
+    const from = moduleOf(root, file);
+
+    for (const [target, edge] of this.graph.outEdges(from)) {
+      if (edge.type !== 'DependsOn' || edge.metadata.source !== 'imports' || targets.has(target)) continue;
+      const files = asList(edge.metadata.files).filter(f => f !== rel);
+      if (files.length === 0) this.graph.dropEdge(from, target);
+      else this.setDependency(from, target, files);
+    }
+
+    if (targets.size === 0) return;
+    this.upsertModule(from);
+    for (const target of targets) {
+      this.upsertModule(target);
+      const files = asList(this.graph.getEdge(from, target)?.metadata.files);
+      if (!files.includes(rel)) this.setDependency(from, target, [...files, rel]);
+    }
+  }
+
+  private setDependency(from: string, to: string, files: string[]): void {
+    this.graph.setEdge(from, to, {
+      type: 'DependsOn',
+      weight: 1 - Math.exp(-files.length / 5),
+      halfLifeDays: 0, // structural — recomputed from source, never decays
+      metadata: { source: 'imports', files: files.sort() },
+    });
+  }
+
+  private upsertModule(id: string): void {
+    const existing = this.graph.getNode(id);
+    const dir = id.slice('module:'.length);
+    this.graph.upsertNode(id, {
+      type: 'Module',
+      label: dir,
+      weight: existing?.weight ?? 0.5,
+      metadata: { source: 'imports', ...existing?.metadata, path: dir },
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /** Drops the import-derived DependsOn edges leaving the given modules */
+  private dropImportEdges(modules: string[]): void {
+    for (const from of new Set(modules)) {
+      for (const [target, edge] of this.graph.outEdges(from)) {
+        if (edge.type === 'DependsOn' && edge.metadata.source === 'imports') this.graph.dropEdge(from, target);
+      }
+    }
+  }
+
+  private updateHeaderIndex(root: string, file: string, exists: boolean): void {
+    if (!HEADER_EXTENSIONS.includes(path.extname(file).toLowerCase())) return;
+    const index = this.headers.get(root) ?? new Map<string, string[]>();
+    const name = path.basename(file);
+    const paths = (index.get(name) ?? []).filter(p => p !== file);
+    index.set(name, exists ? [...paths, file] : paths);
+    this.headers.set(root, index);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parsing & resolution
+// ---------------------------------------------------------------------------
+
+/** Import specifiers as written: './x', 'a.b', '..pkg.mod', 'x/y.h' */
+export function parseImports(language: Language, text: string): string[] {
+  const specs: string[] = [];
+  const collect = (re: RegExp, map: (m: RegExpExecArray) => string[] = m => [m[1]]): void => {
+    for (let m = re.exec(text); m; m = re.exec(text)) specs.push(...map(m));
+  };
+
+  switch (language) {
+    case 'js':
+      collect(/\b(?:import|export)\s[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]/g);
+      collect(/\bimport\s*['"]([^'"]+)['"]/g);
+      collect(/\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g);
+      break;
+    case 'python':
+      // `from . import a, b` names submodules; `from .x import a` names x
+      collect(/^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+\(?([^)#\n]+)/gm, m =>
+        /^\.+$/.test(m[1]) ? m[2].split(',').map(n => m[1] + n.trim().split(/\s+/)[0]).filter(s => /\w$/.test(s)) : [m[1]]);
+      collect(/^[ \t]*import[ \t]+([\w.]+(?:[ \t]+as[ \t]+\w+)?(?:[ \t]*,[ \t]*[\w.]+(?:[ \t]+as[ \t]+\w+)?)*)/gm, m =>
+        m[1].split(',').map(n => n.trim().split(/\s+/)[0]));
+      break;
+    case 'c':
+      collect(/^[ \t]*#[ \t]*include[ \t]*"([^"]+)"/gm);
+      break;
+  }
+  return specs;
+}
+
+/** The directory an import lands in, or undefined when it is not a workspace file */
+function resolveImport(
+  language: Language, spec: string, file: string, root: string,
+  headers: Map<string, string[]> | undefined,
+): string | undefined {
+  const here = path.dirname(file);
+
+  if (language === 'js') {
+    if (!spec.startsWith('.')) return undefined; // package
+    const target = path.resolve(here, spec);
+    if (isDirectory(target)) return target;
+    return isDirectory(path.dirname(target)) ? path.dirname(target) : undefined;
+  }
+
+  if (language === 'python') {
+    const dots = /^\.*/.exec(spec)![0].length;
+    const parts = spec.slice(dots).split('.').filter(Boolean);
+    const bases = dots > 0
+      ? [path.resolve(here, ...Array<string>(dots - 1).fill('..'))]
+      : [root, path.join(root, 'src')];
+    for (const base of bases) {
+      const target = path.join(base, ...parts);
+      if (parts.length > 0 && isDirectory(target)) return target;             // package
+      if (parts.length > 0 && isFile(`${target}.py`)) return path.dirname(target);
+      if (parts.length === 0 && dots > 0) return base;                          // from . import x
+    }
+    return undefined;
+  }
+
+  const candidates = [path.join(here, spec), path.join(root, spec), path.join(root, 'include', spec)];
+  const found = candidates.find(isFile);
+  if (found) return path.dirname(found);
+  const byName = headers?.get(path.basename(spec)) ?? [];
+  return byName.length === 1 ? path.dirname(byName[0]) : undefined;
+}
+
+function indexHeaders(files: string[]): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const file of files) {
+    if (!HEADER_EXTENSIONS.includes(path.extname(file).toLowerCase())) continue;
+    const name = path.basename(file);
+    index.set(name, [...(index.get(name) ?? []), file]);
+  }
+  return index;
+}
+
+function moduleOf(root: string, file: string): string {
+  return moduleId(path.relative(root, path.dirname(file)));
+}
+
+function moduleId(relativeDir: string): string {
+  return `module:${relativeDir.replace(/\\/g, '/') || '.'}`;
+}
+
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function isDirectory(p: string): boolean {
+  try { return fs.statSync(p).isDirectory(); } catch { return false; }
+}
+
+function isFile(p: string): boolean {
+  try { return fs.statSync(p).isFile(); } catch { return false; }
+}
@@ -0,0 +1,336 @@
+import { execFile } from 'child_process';
+import type { GraphStore, SilverEdge } from '../../core/storage/graph';
+
+// ---------------------------------------------------------------------------
+// Git-history ingester — who worked on what, from `git log --numstat`
+//
+//   Person  person:<email>         one per author, co-author and reviewer
+//   Module  module:<top-level dir> one per top-level directory touched
+//
+//   author / co-author ─Contributed─▶ module    weighted by recency and churn
+//   author ─ReviewedBy─▶ reviewer               from `Reviewed-by:` trailers
+//   module ─ReviewedBy─▶ reviewer
+//   author ◀─WorksWith─▶ co-author              from `Co-authored-by:` trailers
+//
+// Every commit adds log(1 + lines changed) of "activity" to its edges, halved
+// for every HALF_LIFE_DAYS of age; an edge's weight is 1 − e^(−activity / 10),
+// so a handful of recent, sizeable commits approaches 1. The last ingested
+// commit is kept as a graph cursor per repository: re-runs only read
+// `<cursor>..HEAD` and fold the new commits into the stored activity.
+// One ingest reads at most MAX_COMMITS; a longer range is remembered in the
+// cursor as pending and the next ingest continues with its older commits.
+// Edges carry the same half-life, so the graph keeps decaying them between
+// ingests.
+// No vscode import, so it runs anywhere the graph does.
+// ---------------------------------------------------------------------------
+
+const HALF_LIFE_DAYS = 180;
+const ACTIVITY_SCALE = 10;
+const MAX_COMMITS = 5000; // per ingest — the first one of a large repository pages
+const DAY_MS = 86_400_000;
+
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+const TRAILER = '\x1d';
+const LOG_FORMAT = `${RECORD}%H${FIELD}%an${FIELD}%ae${FIELD}%aI${FIELD}`
+  + `%(trailers:key=Reviewed-by,key=Co-authored-by,separator=%x1d)${FIELD}`;
+
+export interface GitIdentity {
+  name: string;
+  email: string;
+}
+
+export interface GitCommit {
+  sha: string;
+  author: GitIdentity;
+  date: string;              // author date, ISO
+  reviewers: GitIdentity[];
+  coAuthors: GitIdentity[];
+  files: { path: string; churn: number }[];
+}
+
+export interface GitIngestResult {
+  repository: string;
+  commits: number;
+  people: number;
+  modules: number;
+}
+
+interface Cursor {
+  head?: string;             // history up to this commit is fully ingested
+  date: string;              // newest author date seen — fallback when `head` is gone
+  /** `<head>..<pending.head>` cut off after `done` commits (newest first) */
+  pending?: { head: string; done: number; date: string };
+}
+
+export class GitHistoryIngester {
+  constructor(private readonly graph: GraphStore) {}
+
+  /**
+   * Ingests the commits of the repository containing `cwd` that are not yet
+   * in the graph. Throws when `cwd` is not inside a git repository.
+   */
+  async ingest(cwd: string): Promise<GitIngestResult> {
+    const root = await git(cwd, 'rev-parse', '--show-toplevel');
+    const result: GitIngestResult = { repository: root, commits: 0, people: 0, modules: 0 };
+
+    const head = await git(root, 'rev-parse', '--verify', '--quiet', 'HEAD').catch(() => '');
+    if (!head) return result; // no commits yet
+
+    const cursorKey = `git:${root}`;
+    let cursor = this.readCursor(cursorKey);
+    const people = new Set<string>();
+    const modules = new Set<string>();
+    const now = Date.now();
+    let total = 0;
+
+    // Finish a range cut short by an earlier ingest, then catch up to HEAD
+    while (total < MAX_COMMITS && (cursor?.head !== head || cursor.pending)) {
+      const pending = cursor?.pending && await commitExists(root, cursor.pending.head)
+        ? cursor.pending
+        : { head, done: 0, date: '' };
+      const range = await this.rangeSince(root, pending.head, cursor);
+      const limit = MAX_COMMITS - total;
+      const text = await git(root, 'log', '--no-merges', '--numstat', `--format=${LOG_FORMAT}`,
+        `--max-count=${limit}`, `--skip=${pending.done}`, ...range);
+      const commits = parseGitLog(text);
+      for (const commit of commits) {
+        this.addCommit(commit, now, people, modules);
+      }
+      total += commits.length;
+
+      const newest = commits.reduce((d, c) => later(d, c.date), pending.date);
+      cursor = commits.length === limit
+        ? { head: cursor?.head, date: cursor?.date ?? '', pending: { head: pending.head, done: pending.done + commits.length, date: newest } }
+        : { head: pending.head, date: later(cursor?.date, newest) };
+      this.graph.setCursor(cursorKey, JSON.stringify(cursor satisfies Cursor));
+    }
+    await this.graph.save();
+
+    if (cursor?.pending) {
+      console.log(`[SilverEngineer] Git history of ${root} ingested up to ${MAX_COMMITS} commits — older ones follow on the next ingest`);
+    }
+    return { repository: root, commits: total, people: people.size, modules: modules.size };
+  }
+
+  // ── Private helpers ──────────────────────────────────────────────────────
+
+  private readCursor(key: string): Cursor | undefined {
+    const raw = this.graph.getCursor(key);
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw) as Cursor;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * `<cursor>..<head>`, or — when the cursor commit no longer exists (history
+   * rewritten and garbage-collected) — everything after its date.
+   */
+  private async rangeSince(root: string, head: string, cursor: Cursor | undefined): Promise<string[]> {
+    if (!cursor?.head) return [head];
+    if (await commitExists(root, cursor.head)) return [`${cursor.head}..${head}`];
+    console.warn(`[SilverEngineer] Git cursor ${cursor.head.slice(0, 8)} is gone — ingesting commits after ${cursor.date}`);
+    return cursor.date ? [`--since=${cursor.date}`, head] : [head];
+  }
+
+  private addCommit(commit: GitCommit, now: number, people: Set<string>, modules: Set<string>): void {
+    if (isBot(commit.author)) return;
+
+    const ageDays = Math.max(0, (now - Date.parse(commit.date)) / DAY_MS);
+    const recency = 0.5 ** (ageDays / HALF_LIFE_DAYS);
+
+    const authorId = this.upsertPerson(commit.author, commit.date, true);
+    people.add(authorId);
+    const coAuthorIds = commit.coAuthors.filter(p => !isBot(p)).map(p => this.upsertPerson(p, commit.date, true));
+    const reviewerIds = commit.reviewers.filter(p => !isBot(p)).map(p => this.upsertPerson(p, commit.date, false));
+    [...coAuthorIds, ...reviewerIds].forEach(id => people.add(id));
+
+    // Churn per top-level directory; files at the repository root belong to none
+    const churnByModule = new Map<string, number>();
+    for (const file of commit.files) {
+      const slash = file.path.indexOf('/');
+      if (slash <= 0) continue;
+      const dir = file.path.slice(0, slash);
+      churnByModule.set(dir, (churnByModule.get(dir) ?? 0) + file.churn);
+    }
+
+    for (const [dir, churn] of churnByModule) {
+      const moduleId = this.upsertModule(dir, churn, commit.date);
+      modules.add(moduleId);
+      const activity = Math.log1p(churn) * recency;
+      for (const contributor of [authorId, ...coAuthorIds]) {
+        this.accumulate(contributor, moduleId, 'Contributed', activity, now, commit.date, churn);
+      }
+      for (const reviewer of reviewerIds) {
+        this.accumulate(moduleId, reviewer, 'ReviewedBy', recency, now, commit.date);
+      }
+    }
+
+    for (const reviewer of reviewerIds) {
+      if (reviewer !== authorId) this.accumulate(authorId, reviewer, 'ReviewedBy', recency, now, commit.date);
+    }
+    for (const coAuthor of coAuthorIds) {
+      if (coAuthor === authorId) continue;
+      this.accumulate(authorId, coAuthor, 'WorksWith', recency, now, commit.date);
+      this.accumulate(coAuthor, authorId, 'WorksWith', recency, now, commit.date);
+    }
+  }
+
+  private upsertPerson(person: GitIdentity, date: string, authored: boolean): string {
+    const id = `person:${(person.email || person.name).toLowerCase()}`;
+    const existing = this.graph.getNode(id)?.metadata ?? {};
+    const commits = (Number(existing.commits) || 0) + (authored ? 1 : 0);
+    const reviews = (Number(existing.reviews) || 0) + (authored ? 0 : 1);
+    this.graph.upsertNode(id, {
+      type: 'Person',
+      label: person.name || person.email,
+      weight: saturate(commits + reviews, 50),
+      metadata: {
+        ...existing,
+        source: 'git',
+        email: person.email,
+        commits,
+        reviews,
+        lastActiveAt: later(existing.lastActiveAt, date),
+      },
+      updatedAt: new Date().toISOString(),
+    });
+    return id;
+  }
+
+  private upsertModule(dir: string, churn: number, date: string): string {
+    const id = `module:${dir}`;
+    const existing = this.graph.getNode(id)?.metadata ?? {};
+    const commits = (Number(existing.commits) || 0) + 1;
+    this.graph.upsertNode(id, {
+      type: 'Module',
+      label: dir,
+      weight: saturate(commits, 100),
+      metadata: {
+        ...existing,
+        source: 'git',
+        path: dir,
+        commits,
+        churn: (Number(existing.churn) || 0) + churn,
+        lastChangedAt: later(existing.lastChangedAt, date),
+      },
+      updatedAt: new Date().toISOString(),
+    });
+    return id;
+  }
+
+  /**
+   * Decays the edge's stored activity to `now`, adds this commit's share and
+   * recomputes the weight. Commits arrive newest first, so `lastCommitAt`
+   * keeps the latest date rather than the last one seen.
+   */
+  private accumulate(
+    source: string, target: string, type: SilverEdge['type'],
+    activity: number, now: number, date: string, churn = 0,
+  ): void {
+    const meta = this.graph.getEdge(source, target)?.metadata ?? {};
+    const since = meta.activityAt ? Math.max(0, (now - Date.parse(String(meta.activityAt))) / DAY_MS) : 0;
+    const total = (Number(meta.activity) || 0) * 0.5 ** (since / HALF_LIFE_DAYS) + activity;
+    this.graph.setEdge(source, target, {
+      type,
+      weight: 1 - Math.exp(-total / ACTIVITY_SCALE),
+      halfLifeDays: HALF_LIFE_DAYS,
+      metadata: {
+        ...meta,
+        source: 'git',
+        commits: (Number(meta.commits) || 0) + 1,
+        ...(type === 'Contributed' ? { churn: (Number(meta.churn) || 0) + churn } : {}),
+        activity: total,
+        activityAt: new Date(now).toISOString(),
+        lastCommitAt: later(meta.lastCommitAt, date),
+      },
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parsing (pure)
+// ---------------------------------------------------------------------------
+
+/** Parses `git log --numstat --format=LOG_FORMAT` output */
+export function parseGitLog(text: string): GitCommit[] {
+  const commits: GitCommit[] = [];
+  for (const record of text.split(RECORD)) {
+    const fields = record.split(FIELD);
+    if (fields.length < 6) continue;
+    const [sha, name, email, date, trailers, numstat] = fields;
+
+    const commit: GitCommit = {
+      sha: sha.trim(),
+      author: { name: name.trim(), email: email.trim().toLowerCase() },
+      date: date.trim(),
+      reviewers: [],
+      coAuthors: [],
+      files: [],
+    };
+
+    for (const trailer of trailers.split(TRAILER)) {
+      const m = /^\s*([\w-]+)\s*:\s*(.+?)\s*$/.exec(trailer);
+      if (!m) continue;
+      const identity = parseIdentity(m[2]);
+      if (/^reviewed-by$/i.test(m[1])) commit.reviewers.push(identity);
+      else if (/^co-authored-by$/i.test(m[1])) commit.coAuthors.push(identity);
+    }
+
+    for (const line of numstat.split('\n')) {
+      const m = /^(\d+|-)\t(\d+|-)\t(.+)$/.exec(line.trim());
+      if (!m) continue;
+      // Binary files report '-' for both counts; count them as one line
+      const churn = m[1] === '-' ? 1 : Number(m[1]) + Number(m[2]);
+      commit.files.push({ path: renamedPath(m[3]), churn });
+    }
+
+    commits.push(commit);
+  }
+  return commits;
+}
+
+/** 'Jane Doe <jane@example.com>' → { name, email }; a bare name keeps an empty email */
+function parseIdentity(text: string): GitIdentity {
+  const m = /^(.*?)\s*<([^>]*)>\s*$/.exec(text);
+  return m ? { name: m[1].trim(), email: m[2].trim().toLowerCase() } : { name: text.trim(), email: '' };
+}
+
+/** Numstat renames: 'src/{a => b}/x.ts' → 'src/b/x.ts', 'a.ts => b.ts' → 'b.ts' */
+function renamedPath(raw: string): string {
+  if (!raw.includes(' => ')) return raw;
+  if (raw.includes('{')) {
+    return raw.replace(/\{[^{}]* => ([^{}]*)\}/, '$1').replace(/\/{2,}/g, '/');
+  }
+  return raw.split(' => ')[1];
+}
+
+function isBot(person: GitIdentity): boolean {
+  return /\[bot\]$/i.test(person.name) || /\[bot\]@/i.test(person.email);
+}
+
+/** 0 → 0, `scale` → ~0.63, approaching 1 */
+function saturate(count: number, scale: number): number {
+  return 1 - Math.exp(-count / scale);
+}
+
+function later(current: unknown, date: string): string {
+  return typeof current === 'string' && current > date ? current : date;
+}
+
+function commitExists(root: string, sha: string): Promise<boolean> {
+  return git(root, 'cat-file', '-e', `${sha}^{commit}`).then(() => true, () => false);
+}
+
+/** Runs a git command; resolves to trimmed stdout, rejects with git's message. */
+function git(cwd: string, ...args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, encoding: 'utf8', maxBuffer: 256 * 1024 * 1024 }, (err, stdout, stderr) => {
+      if (err) reject(new Error(stderr.trim() || err.message));
+      else resolve(stdout.trim());
+    });
+  });
+}
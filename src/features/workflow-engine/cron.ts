@@ -0,0 +1,85 @@
+// ---------------------------------------------------------------------------
+// Cron-like schedules for workflow `triggers.schedule`
+//
+//   ┌ minute (0-59)
+//   │ ┌ hour (0-23)
+//   │ │ ┌ day of month (1-31)
+//   │ │ │ ┌ month (1-12)
+//   │ │ │ │ ┌ day of week (0-7, 0 and 7 = Sunday)
+//   * * * * *
+//
+// Each field accepts *, N, A-B, lists (1,15) and steps (*/15, 8-18/2).
+// Aliases: @hourly, @daily, @weekly, @monthly. Local time.
+// Pure (no vscode import) so the validator can use it.
+// ---------------------------------------------------------------------------
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Both day fields restricted → either may match (classic cron rule) */
+  dayOr: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly':  '0 * * * *',
+  '@daily':   '0 0 * * *',
+  '@weekly':  '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+/** Parses a cron expression. Returns undefined if it is malformed. */
+export function parseCron(expr: string): CronSchedule | undefined {
+  const text = ALIASES[expr.trim()] ?? expr.trim();
+  const fields = text.split(/\s+/);
+  if (fields.length !== 5) return undefined;
+
+  const sets: Set<number>[] = [];
+  for (const [i, field] of fields.entries()) {
+    const set = parseField(field, RANGES[i][0], RANGES[i][1]);
+    if (!set) return undefined;
+    sets.push(set);
+  }
+  // 7 is an alias for Sunday
+  if (sets[4].delete(7)) sets[4].add(0);
+
+  return {
+    minutes: sets[0], hours: sets[1], days: sets[2], months: sets[3], weekdays: sets[4],
+    dayOr: fields[2] !== '*' && fields[4] !== '*',
+  };
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getMinutes())) return false;
+  if (!schedule.hours.has(date.getHours())) return false;
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+
+  const day = schedule.days.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+  return schedule.dayOr ? day || weekday : day && weekday;
+}
+
+// ---------------------------------------------------------------------------
+
+function parseField(field: string, min: number, max: number): Set<number> | undefined {
+  const out = new Set<number>();
+  for (const part of field.split(',')) {
+    const m = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!m) return undefined;
+
+    let lo = min, hi = max;
+    if (m[1] !== '*') {
+      lo = Number(m[2]);
+      hi = m[3] !== undefined ? Number(m[3]) : m[4] !== undefined ? max : lo;
+    }
+    const step = m[4] !== undefined ? Number(m[4]) : 1;
+    if (lo < min || hi > max || lo > hi || step < 1) return undefined;
+
+    for (let v = lo; v <= hi; v += step) out.add(v);
+  }
+  return out;
+}
@@ -0,0 +1,339 @@
+import * as vscode from 'vscode';
+import * as yaml from 'js-yaml';
+import type { CancellationSignal } from './host';
+import type {
+  DebugAction,
+  StepResult,
+  WorkflowDebugger,
+  WorkflowDefinition,
+  WorkflowRunResult,
+  WorkflowStep,
+} from './types';
+
+// ---------------------------------------------------------------------------
+// Workflow step-through debugger
+//
+// A webview panel that takes control before every top-level step of a run
+// started with `@silver /run <name> --debug`:
+//
+//   Step Over (F10)  → run the step, pause before the next
+//   Skip             → record the step as skipped, pause before the next
+//   Continue (F5)    → run to the end without pausing
+//   Stop (Shift+F5)  → end the run as cancelled; finally steps still run
+//
+// While paused the variable map can be edited; changes are written into the
+// live map before the step runs. Closing the panel stops the run.
+// ---------------------------------------------------------------------------
+
+type PanelMessage =
+  | { type: 'ready' }
+  | { type: 'action'; action: DebugAction; variables: Record<string, string> };
+
+type StepStatus = 'pending' | 'current' | 'passed' | 'failed' | 'skipped' | 'recovered';
+
+export class WorkflowDebugPanel implements WorkflowDebugger, vscode.Disposable {
+  private readonly panel: vscode.WebviewPanel;
+  private readonly disposables: vscode.Disposable[] = [];
+  /** Resolves the engine's pending pause() */
+  private resume: ((action: DebugAction) => void) | undefined;
+  private paused: { index: number; variables: Map<string, string> } | undefined;
+  private stepResults: ReadonlyMap<string, StepResult> = new Map();
+  private state: 'starting' | 'paused' | 'running' | 'finished' = 'starting';
+  private result: WorkflowRunResult | undefined;
+  private disposed = false;
+
+  constructor(private readonly workflow: WorkflowDefinition) {
+    this.panel = vscode.window.createWebviewPanel(
+      'silver-engineer.workflowDebugger',
+      `Debug: ${workflow.name}`,
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: false },
+      { enableScripts: true, retainContextWhenHidden: true },
+    );
+    this.panel.iconPath = new vscode.ThemeIcon('debug-alt');
+    this.panel.webview.html = buildHtml(this.panel.webview, generateNonce());
+
+    this.disposables.push(
+      this.panel.webview.onDidReceiveMessage((msg: PanelMessage) => this.handleMessage(msg)),
+    );
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+  }
+
+  // ── WorkflowDebugger ──────────────────────────────────────────────────────
+
+  pause(
+    step: WorkflowStep,
+    context: { index: number; variables: Map<string, string>; stepResults: ReadonlyMap<string, StepResult> },
+    token: CancellationSignal,
+  ): Promise<DebugAction> {
+    if (this.state === 'finished') return Promise.resolve('stop');
+
+    this.paused = { index: context.index, variables: context.variables };
+    this.stepResults = context.stepResults;
+    this.state = 'paused';
+    this.render(step);
+    this.panel.reveal(undefined, true);
+
+    return new Promise(resolve => {
+      const cancel = token.onCancellationRequested(() => this.resume?.('stop'));
+      this.resume = action => {
+        cancel.dispose();
+        this.resume = undefined;
+        this.paused = undefined;
+        this.state = action === 'stop' ? 'finished' : 'running';
+        this.render();
+        resolve(action);
+      };
+    });
+  }
+
+  /** Shows the outcome once the run has ended (the panel stays open). */
+  finish(result: WorkflowRunResult): void {
+    this.state = 'finished';
+    this.result = result;
+    this.stepResults = new Map(result.steps.map(r => [r.id, r]));
+    this.render();
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    // Closing the panel mid-run stops the workflow
+    this.resume?.('stop');
+    this.state = 'finished';
+    this.panel.dispose();
+    for (const d of this.disposables) d.dispose();
+    this.disposables.length = 0;
+  }
+
+  // ── Webview bridge ────────────────────────────────────────────────────────
+
+  private handleMessage(msg: PanelMessage): void {
+    switch (msg.type) {
+      case 'ready':
+        this.render(this.paused ? this.workflow.steps[this.paused.index] : undefined);
+        break;
+      case 'action':
+        if (!this.resume || !this.paused) return;
+        applyVariableEdits(this.paused.variables, msg.variables);
+        this.resume(msg.action);
+        break;
+    }
+  }
+
+  private render(current?: WorkflowStep): void {
+    if (this.disposed) return;
+    const currentIndex = this.paused?.index;
+    const steps = this.workflow.steps.map((s, i) => ({
+      id: s.id,
+      type: s.type,
+      label: s.description ?? '',
+      status: (i === currentIndex ? 'current' : stepStatus(this.stepResults.get(s.id))) as StepStatus,
+      failReason: this.stepResults.get(s.id)?.failReason,
+    }));
+
+    void this.panel.webview.postMessage({
+      type: 'state',
+      payload: {
+        workflow: this.workflow.name,
+        state: this.state,
+        steps,
+        current: current ? { id: current.id, yaml: yaml.dump(current, { lineWidth: 100 }) } : undefined,
+        variables: this.paused ? Object.fromEntries(this.paused.variables) : undefined,
+        outcome: this.result
+          ? this.result.cancelled ? 'cancelled' : this.result.abortedAt ? `aborted at ${this.result.abortedAt}`
+            : this.result.passed ? 'passed' : 'failed'
+          : undefined,
+      },
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+
+function stepStatus(r: StepResult | undefined): StepStatus {
+  if (!r) return 'pending';
+  if (r.skipped) return 'skipped';
+  if (r.recoveredBy) return 'recovered';
+  return r.passed ? 'passed' : 'failed';
+}
+
+/** Makes `variables` match the edited copy: changed, added and removed names. */
+function applyVariableEdits(variables: Map<string, string>, edited: Record<string, string>): void {
+  for (const name of [...variables.keys()]) {
+    if (!(name in edited)) variables.delete(name);
+  }
+  for (const [name, value] of Object.entries(edited)) {
+    if (variables.get(name) !== value) variables.set(name, value);
+  }
+}
+
+function generateNonce(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from({ length: 32 }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
+}
+
+function buildHtml(webview: vscode.Webview, nonce: string): string {
+  return /* html */ `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy"
+    content="default-src 'none';
+             script-src 'nonce-${nonce}';
+             style-src ${webview.cspSource} 'unsafe-inline';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Workflow Debugger</title>
+  <style>
+    body { margin:0; padding:0; background:var(--vscode-editor-background); color:var(--vscode-editor-foreground); font-family:var(--vscode-font-family); font-size:var(--vscode-font-size); }
+    #app { padding:14px; }
+    h1 { font-size:1.15em; font-weight:600; margin:0 0 4px; }
+    h2 { font-size:1em; font-weight:600; margin:16px 0 6px; }
+    .status { font-size:0.85em; color:var(--vscode-descriptionForeground); margin-bottom:10px; }
+    .toolbar { display:flex; gap:6px; flex-wrap:wrap; }
+    .btn { background:var(--vscode-button-background); color:var(--vscode-button-foreground); border:none; border-radius:3px; padding:5px 12px; cursor:pointer; font-size:0.85em; }
+    .btn:hover { background:var(--vscode-button-hoverBackground); }
+    .btn.secondary { background:var(--vscode-button-secondaryBackground); color:var(--vscode-button-secondaryForeground); }
+    .btn:disabled { opacity:0.5; cursor:default; }
+    #steps { list-style:none; padding:0; margin:0; }
+    #steps li { padding:3px 6px; border-radius:3px; }
+    #steps li.current { background:var(--vscode-editor-selectionBackground); font-weight:600; }
+    #steps .reason { color:var(--vscode-errorForeground); font-size:0.85em; margin-left:1.6em; }
+    pre { background:var(--vscode-textCodeBlock-background); padding:8px; border-radius:3px; overflow-x:auto; margin:0; }
+    table { width:100%; border-collapse:collapse; }
+    td { padding:2px 4px; vertical-align:top; }
+    td.name { width:28%; font-family:var(--vscode-editor-font-family); word-break:break-all; padding-top:6px; }
+    textarea, input { width:100%; box-sizing:border-box; padding:3px 6px; background:var(--vscode-input-background); color:var(--vscode-input-foreground); border:1px solid var(--vscode-input-border, transparent); font-family:var(--vscode-editor-font-family); resize:vertical; }
+    textarea.changed { border-color:var(--vscode-inputValidation-warningBorder); }
+    .remove { background:none; border:none; color:var(--vscode-descriptionForeground); cursor:pointer; }
+  </style>
+</head>
+<body>
+  <div id="app">
+    <h1 id="title">🐞 Workflow Debugger</h1>
+    <div class="status" id="status">Starting…</div>
+    <div class="toolbar">
+      <button class="btn" id="btn-step" title="F10">⤵️ Step Over</button>
+      <button class="btn secondary" id="btn-skip">⏭️ Skip</button>
+      <button class="btn secondary" id="btn-continue" title="F5">▶️ Continue</button>
+      <button class="btn secondary" id="btn-stop" title="Shift+F5">⏹️ Stop</button>
+    </div>
+    <h2>Steps</h2>
+    <ul id="steps"></ul>
+    <section id="current-section">
+      <h2 id="current-title">Next step</h2>
+      <pre id="current"></pre>
+    </section>
+    <section id="vars-section">
+      <h2>Variables</h2>
+      <table id="vars"></table>
+      <table><tr>
+        <td class="name"><input id="new-name" placeholder="name"></td>
+        <td><input id="new-value" placeholder="value — press Enter to add"></td>
+      </tr></table>
+    </section>
+  </div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const ICONS = { pending: '○', current: '▶️', passed: '✅', failed: '❌', skipped: '⏭️', recovered: '↪️' };
+    let variables = {};
+    let original = {};
+    let paused = false;
+
+    const $ = id => document.getElementById(id);
+
+    function send(action) {
+      if (!paused) return;
+      paused = false;
+      vscode.postMessage({ type: 'action', action, variables });
+    }
+
+    $('btn-step').addEventListener('click', () => send('step'));
+    $('btn-skip').addEventListener('click', () => send('skip'));
+    $('btn-continue').addEventListener('click', () => send('continue'));
+    $('btn-stop').addEventListener('click', () => send('stop'));
+    window.addEventListener('keydown', e => {
+      if (e.key === 'F10') { e.preventDefault(); send('step'); }
+      else if (e.key === 'F5' && e.shiftKey) { e.preventDefault(); send('stop'); }
+      else if (e.key === 'F5') { e.preventDefault(); send('continue'); }
+    });
+    $('new-value').addEventListener('keydown', e => {
+      const name = $('new-name').value.trim();
+      if (e.key !== 'Enter' || !name) return;
+      variables[name] = $('new-value').value;
+      $('new-name').value = '';
+      $('new-value').value = '';
+      renderVariables();
+    });
+
+    function renderVariables() {
+      const table = $('vars');
+      table.replaceChildren();
+      for (const name of Object.keys(variables).sort()) {
+        const row = table.insertRow();
+        const nameCell = row.insertCell();
+        nameCell.className = 'name';
+        nameCell.textContent = name;
+        const value = document.createElement('textarea');
+        value.rows = Math.min(6, Math.max(1, variables[name].split('\\n').length));
+        value.value = variables[name];
+        value.classList.toggle('changed', original[name] !== variables[name]);
+        value.addEventListener('input', () => {
+          variables[name] = value.value;
+          value.classList.toggle('changed', original[name] !== value.value);
+        });
+        row.insertCell().appendChild(value);
+        const remove = document.createElement('button');
+        remove.className = 'remove';
+        remove.textContent = '✕';
+        remove.title = 'Remove variable';
+        remove.addEventListener('click', () => { delete variables[name]; renderVariables(); });
+        row.insertCell().appendChild(remove);
+      }
+    }
+
+    window.addEventListener('message', event => {
+      const msg = event.data;
+      if (msg.type !== 'state') return;
+      const s = msg.payload;
+      paused = s.state === 'paused';
+
+      $('title').textContent = '🐞 ' + s.workflow;
+      $('status').textContent =
+        s.state === 'paused' ? '⏸️ Paused before ' + s.current.id :
+        s.state === 'running' ? '⏳ Running…' :
+        s.state === 'finished' ? '🏁 Finished' + (s.outcome ? ' — ' + s.outcome : '') : 'Starting…';
+      for (const id of ['btn-step', 'btn-skip', 'btn-continue', 'btn-stop']) $(id).disabled = !paused;
+
+      const list = $('steps');
+      list.replaceChildren();
+      for (const step of s.steps) {
+        const li = document.createElement('li');
+        li.className = step.status;
+        li.textContent = ICONS[step.status] + ' ' + step.id + ' (' + step.type + ')' + (step.label ? ' — ' + step.label : '');
+        if (step.failReason) {
+          const reason = document.createElement('div');
+          reason.className = 'reason';
+          reason.textContent = step.failReason;
+          li.appendChild(reason);
+        }
+        list.appendChild(li);
+      }
+
+      $('current-section').hidden = !s.current;
+      if (s.current) {
+        $('current-title').textContent = 'Next step: ' + s.current.id;
+        $('current').textContent = s.current.yaml;
+      }
+      $('vars-section').hidden = !s.variables;
+      if (s.variables) {
+        variables = { ...s.variables };
+        original = { ...s.variables };
+        renderVariables();
+      }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+}
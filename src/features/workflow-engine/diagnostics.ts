@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { parseAndValidate, type WorkflowProblem, type WorkflowResolver } from './validator';
+
+const WORKFLOW_GLOB = '.github/workflows/silver/*.{yml,yaml}';
+
+/**
+ * WorkflowDiagnostics
+ *
+ * Publishes validator problems for `.github/workflows/silver/*.yml` to the
+ * Problems panel. Open documents are re-validated on every edit; files that
+ * are not open are validated from disk on startup and whenever they change.
+ */
+export class WorkflowDiagnostics implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection('silver-workflows');
+  private readonly disposables: vscode.Disposable[] = [this.collection];
+
+  /** `resolve` lets `workflow` steps be checked against the workflow they call */
+  constructor(private readonly resolve?: WorkflowResolver) {}
+
+  async start(): Promise<void> {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) return;
+    const pattern = new vscode.RelativePattern(folder, WORKFLOW_GLOB);
+
+    // Initial pass over files on disk
+    for (const uri of await vscode.workspace.findFiles(pattern)) {
+      await this.validateUri(uri);
+    }
+
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    watcher.onDidCreate(uri => void this.validateUri(uri));
+    watcher.onDidChange(uri => void this.validateUri(uri));
+    watcher.onDidDelete(uri => this.collection.delete(uri));
+
+    this.disposables.push(
+      watcher,
+      vscode.workspace.onDidOpenTextDocument(doc => this.validateDocument(doc)),
+      vscode.workspace.onDidChangeTextDocument(e => this.validateDocument(e.document)),
+    );
+    vscode.workspace.textDocuments.forEach(doc => this.validateDocument(doc));
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) d.dispose();
+    this.disposables.length = 0;
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private validateDocument(doc: vscode.TextDocument): void {
+    if (!isWorkflowFile(doc.uri)) return;
+    this.publish(doc.uri, doc.getText());
+  }
+
+  private async validateUri(uri: vscode.Uri): Promise<void> {
+    // An open document's unsaved text wins over the file on disk
+    const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (open) return this.validateDocument(open);
+    try {
+      const bytes = await vscode.workspace.fs.readFile(uri);
+      this.publish(uri, Buffer.from(bytes).toString('utf8'));
+    } catch {
+      this.collection.delete(uri);
+    }
+  }
+
+  private publish(uri: vscode.Uri, text: string): void {
+    const { problems } = parseAndValidate(text, this.resolve);
+    const lines = text.split(/\r?\n/);
+    this.collection.set(uri, problems.map(p => toDiagnostic(p, lines)));
+  }
+}
+
+// ---------------------------------------------------------------------------
+
+function isWorkflowFile(uri: vscode.Uri): boolean {
+  return uri.scheme === 'file' && /[\\/]\.github[\\/]workflows[\\/]silver[\\/][^\\/]+\.ya?ml$/.test(uri.fsPath);
+}
+
+function toDiagnostic(problem: WorkflowProblem, lines: string[]): vscode.Diagnostic {
+  const line = problem.line ?? (problem.stepId ? findStepLine(lines, problem.stepId) : 0);
+  const text = lines[line] ?? '';
+  const start = problem.column ?? Math.max(0, text.search(/\S/));
+  const range = new vscode.Range(line, start, line, Math.max(start + 1, text.length));
+
+  const diagnostic = new vscode.Diagnostic(
+    range,
+    problem.message,
+    problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning,
+  );
+  diagnostic.source = 'silver-workflow';
+  return diagnostic;
+}
+
+/** Line of the `id: <stepId>` entry, or 0 if it cannot be found. */
+function findStepLine(lines: string[], stepId: string): number {
+  const escaped = stepId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const re = new RegExp(`^\\s*(-\\s*)?id:\\s*['"]?${escaped}['"]?\\s*(#.*)?$`);
+  const idx = lines.findIndex(l => re.test(l));
+  return idx >= 0 ? idx : 0;
+}
@@ -1,13 +1,27 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { execSync } from 'child_process';
 import * as yaml from 'js-yaml';
+import {
+  BUILTIN_VARIABLES, findPlaceholders, parseAndValidate, validateWorkflow, type WorkflowProblem,
+} from './validator';
+import { formatDuration, parseTimeout, runShellCommand } from './shell';
+import { extractJson, resolvePath, rootVariable, validateJson, type JsonSchema } from './json-output';
+import { ConditionSyntaxError, conditionReferences, evaluateCondition, parseCondition } from './expression';
+import { expandMatrix, matrixLabel, type MatrixCombination } from './matrix';
+import { toSarif } from './sarif';
+import {
+  NEVER_CANCELLED, type CancellationSignal, type LlmMessage, type LlmModel, type LlmRequestOptions,
+  type StepStream, type WorkflowHost,
+} from './host';
 import type {
   WorkflowDefinition,
   WorkflowStep,
   StepResult,
   WorkflowRunResult,
+  WorkflowRunOptions,
+  WorkflowMatrix,
+  WorkflowArtifact,
 } from './types';
 
 // ---------------------------------------------------------------------------
@@ -15,24 +29,54 @@ import type {
 //
 // Reads .github/workflows/silver/*.yml from the workspace, parses them,
 // and executes with full branching logic:
-//   - step types: agent, prompt, shell
+//   - step types: agent, prompt, shell, input, parallel, foreach, tool, workflow
 //   - expect / on_fail (abort | continue | retry(max: N))
 //   - condition expressions (steps.<id>.passed)
 //   - {{variable}} interpolation
+//   - step-through debugging (options.debug pauses before each top-level step)
+//   - matrix runs (`matrix:` repeats the workflow per variable combination)
+//   - artifacts (`artifacts:` writes step output to files, text or SARIF)
 //
 // This is the orchestration layer that makes @silver /run truly agentic:
 // it drives multiple LLM calls and shell commands under a defined flow,
 // not just a single prompt.
+//
+// The engine does not import vscode: the LLM, pickers, tools, settings and
+// checkpoints come from a WorkflowHost (see host.ts), so the same engine
+// runs inside the extension and from the `silver` CLI.
 // ---------------------------------------------------------------------------
 
+/** Shell output beyond this is still captured, just not echoed into the chat */
+const MAX_STREAMED_CHARS = 64 * 1024;
+
+/** Mutable state shared by every step of one workflow run. */
+interface RunState {
+  workflow: WorkflowDefinition;
+  variables: Map<string, string>;
+  stepResults: Map<string, StepResult>;
+  /** All step results in completion order (parallel children included) */
+  results: StepResult[];
+  /** Fallback step ids currently executing — guards against fallback cycles */
+  activeFallbacks: Set<string>;
+  /** Names of the workflows being run, outermost first — guards against recursion */
+  callStack: string[];
+  /** Set for triggered runs: state-changing steps ask before running */
+  background?: { trigger: string };
+  /** Files written by `artifacts:` — shared with called workflows */
+  artifacts: WorkflowArtifact[];
+}
+
 export class WorkflowEngine {
 
+  constructor(private readonly host: WorkflowHost) {}
+
   // ── Public API ─────────────────────────────────────────────────────────
 
   /**
-   * Lists all available workflows from .github/workflows/silver/*.yml
+   * Lists all available workflows from .github/workflows/silver/*.yml,
+   * including invalid ones together with their validation problems.
    */
-  listWorkflows(): { name: string; description: string; file: string }[] {
+  listWorkflows(): { name: string; description: string; file: string; problems: WorkflowProblem[] }[] {
     const dir = this.workflowDir();
     if (!dir || !fs.existsSync(dir)) return [];
 
@@ -41,14 +85,26 @@ export class WorkflowEngine {
       .flatMap(f => {
         try {
           const raw = fs.readFileSync(path.join(dir, f), 'utf8');
-          const def = yaml.load(raw) as WorkflowDefinition;
-          return [{ name: def.name ?? path.basename(f, '.yml'), description: def.description ?? '', file: f }];
+          const { def, problems } = parseAndValidate(raw, n => this.loadWorkflow(n) ?? undefined);
+          const fallbackName = path.basename(f, path.extname(f));
+          return [{ name: def?.name ?? fallbackName, description: def?.description ?? '', file: f, problems }];
         } catch {
           return [];
         }
       });
   }
 
+  /**
+   * The YAML syntax error of the file `name` would load from, if that file
+   * does not parse — loadWorkflow skips such files, so callers reporting
+   * "not found" can say why. The Problems panel shows the same error.
+   */
+  loadError(name: string): WorkflowProblem | undefined {
+    return this.listWorkflows()
+      .find(w => w.name === name)
+      ?.problems.find(p => p.message.startsWith('YAML syntax error'));
+  }
+
   /**
    * Loads a workflow by name (matches `name:` field in YAML, or filename without extension).
    */
@@ -75,17 +131,66 @@ export class WorkflowEngine {
   /**
    * Executes a workflow, streaming progress to the chat response stream.
    * Returns a full run result including per-step outcomes.
+   *
+   * A checkpoint is saved after every completed top-level step; pass it back
+   * as `options.resume` to continue from the step where the run stopped.
+   * Background runs keep none: the checkpoint is per workflow, and theirs
+   * would overwrite (or clear) that of an interrupted chat run.
    */
   async run(
     workflow: WorkflowDefinition,
-    stream: vscode.ChatResponseStream,
-    token: vscode.CancellationToken,
+    stream: StepStream,
+    token: CancellationSignal,
+    options: WorkflowRunOptions = {},
   ): Promise<WorkflowRunResult> {
+    return workflow.matrix && !options.resume
+      ? this.runMatrix(workflow, workflow.matrix, stream, token, options)
+      : this.runSingle(workflow, stream, token, options, !options.background);
+  }
+
+  // ── Private run loop ───────────────────────────────────────────────────
+
+  /**
+   * One pass over the workflow's steps. `keepCheckpoints` is off for
+   * background runs and matrix combinations, which would otherwise overwrite
+   * another run's checkpoint.
+   */
+  private async runSingle(
+    workflow: WorkflowDefinition,
+    stream: StepStream,
+    token: CancellationSignal,
+    options: WorkflowRunOptions,
+    keepCheckpoints = true,
+  ): Promise<WorkflowRunResult> {
+    const { resume } = options;
+    const startedAt = resume?.startedAt ?? new Date().toISOString();
     const variables = new Map<string, string>();
     const stepResults = new Map<string, StepResult>();
 
     // ── Populate built-in variables (git remote, platform, push command) ──
-    populateGitVariables(variables);
+    populateGitVariables(variables, this.host.gitCwd(), this.host.setting('gitPlatform', 'auto'));
+    for (const [k, v] of Object.entries(options.variables ?? {})) variables.set(k, v);
+
+    // ── Restore a checkpoint: captured variables win over fresh built-ins ──
+    if (resume) {
+      for (const [k, v] of Object.entries(resume.variables)) variables.set(k, v);
+      for (const r of resume.steps) stepResults.set(r.id, r);
+    }
+    const startIndex = resume ? workflow.steps.findIndex(s => s.id === resume.resumeAt) : 0;
+    if (startIndex < 0) {
+      // The workflow changed since the checkpoint — starting over would repeat finished steps
+      const failReason = `Checkpoint points at step \`${resume!.resumeAt}\`, which no longer exists in this workflow`;
+      stream.markdown(`> ❌ ${failReason}\n`);
+      return {
+        workflowName: workflow.name,
+        passed: false,
+        steps: [...resume!.steps],
+        abortedAt: resume!.resumeAt,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        variables: Object.fromEntries(variables),
+      };
+    }
 
     stream.markdown(`## ⚙️ Workflow: \`${workflow.name}\`\n`);
     if (workflow.description) {
@@ -97,104 +202,363 @@ export class WorkflowEngine {
     if (platform) {
       stream.markdown(`> 🌐 Platform: **${platform}** — push: \`${pushCmd}\`\n`);
     }
-    stream.markdown(`\n**${workflow.steps.length} steps** — running now…\n\n`);
+    if (options.dryRun) {
+      return this.planWorkflow(workflow, variables, stream, startedAt);
+    }
+    if (resume) {
+      stream.markdown(`\n**Resuming** at step \`${workflow.steps[startIndex].id}\` — ${startIndex} of ${workflow.steps.length} steps already done\n\n`);
+    } else {
+      stream.markdown(`\n**${workflow.steps.length} steps** — running now…\n\n`);
+    }
     stream.markdown('---\n\n');
 
-    const results: StepResult[] = [];
-
-    for (const step of workflow.steps) {
-      if (token.isCancellationRequested) break;
+    const state: RunState = {
+      workflow, variables, stepResults,
+      results: [...(resume?.steps ?? [])],
+      activeFallbacks: new Set(),
+      callStack: [workflow.name],
+      background: options.background,
+      artifacts: [],
+    };
+    const results = state.results;
+    let abortedAt: string | undefined;
+    let cancelled = false;
+    // Cleared by 'continue': the rest of the run goes without pausing
+    let debug = options.debug;
 
-      // ── Evaluate condition ──────────────────────────────────────────────
-      if (step.condition) {
-        const conditionPassed = evaluateCondition(step.condition, stepResults, variables);
-        if (!conditionPassed) {
-          const r: StepResult = { id: step.id, passed: true, output: '', skipped: true };
-          stepResults.set(step.id, r);
-          results.push(r);
-          stream.markdown(`⏭️ **\`${step.id}\`** — skipped *(condition not met)*\n\n`);
-          continue;
+    try {
+      for (const [index, step] of workflow.steps.entries()) {
+        if (index < startIndex) continue;
+        if (token.isCancellationRequested) {
+          cancelled = true;
+          break;
         }
-      }
-
-      // ── Execute with retry support ─────────────────────────────────────
-      const maxRetries = parseRetry(step.on_fail);
-      let attempt = 0;
-      let stepResult: StepResult | null = null;
 
-      while (attempt <= maxRetries) {
-        if (attempt > 0) {
-          stream.markdown(`  🔄 Retry ${attempt}/${maxRetries}…\n`);
+        const action = debug ? await debug.pause(step, { index, variables, stepResults }, token) : 'step';
+        if (action === 'stop') {
+          stream.markdown(`🛑 **\`${step.id}\`** — stopped in the debugger\n\n`);
+          cancelled = true;
+          break;
         }
+        if (action === 'continue') debug = undefined;
 
-        stepResult = await this.runStep(step, variables, stream, token);
-        if (stepResult.passed) break;
-
-        attempt++;
-        if (attempt > maxRetries) break;
-      }
-
-      if (!stepResult) {
-        stepResult = { id: step.id, passed: false, output: '', skipped: false, failReason: 'unknown' };
-      }
-
-      // Capture output variable
-      if (step.output && stepResult.output) {
-        variables.set(step.output, stepResult.output);
-      }
-
-      stepResults.set(step.id, stepResult);
-      results.push(stepResult);
+        const stepResult = action === 'skip'
+          ? skipInDebugger(step, state, stream)
+          : await this.executeStep(step, state, stream, token);
 
-      // ── Handle failure ─────────────────────────────────────────────────
-      if (!stepResult.passed) {
-        const strategy = step.on_fail ?? 'abort';
-        if (strategy === 'abort' || strategy.startsWith('retry')) {
-          // retry exhausted → abort
+        // ── Handle failure ───────────────────────────────────────────────
+        if (isFatalFailure(step, stepResult)) {
+          // abort, or retry exhausted (and no fallback recovered it) → abort
           stream.markdown(`\n❌ **Workflow aborted** at step \`${step.id}\`\n`);
           if (stepResult.failReason) {
             stream.markdown(`> ${stepResult.failReason}\n`);
           }
-          return {
-            workflowName: workflow.name,
-            passed: false,
-            steps: results,
-            abortedAt: step.id,
-          };
+          abortedAt = step.id;
+          break;
         }
         // continue — already logged in runStep
+
+        const next = workflow.steps[index + 1];
+        if (next && keepCheckpoints) {
+          await this.host.saveCheckpoint({
+            workflowName: workflow.name,
+            startedAt,
+            savedAt: new Date().toISOString(),
+            resumeAt: next.id,
+            variables: Object.fromEntries(variables),
+            steps: [...results],
+          });
+        }
       }
+      cancelled = cancelled || token.isCancellationRequested;
+    } finally {
+      await this.runFinallySteps(state, stream, token, abortedAt, cancelled);
+    }
+
+    const summary = {
+      workflowName: workflow.name,
+      ...(options.background ? { trigger: options.background.trigger } : {}),
+      steps: results,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      variables: Object.fromEntries(variables),
+      ...(state.artifacts.length > 0 ? { artifacts: state.artifacts } : {}),
+    };
+
+    if (abortedAt) {
+      this.showArtifacts(state.artifacts, stream);
+      return { ...summary, passed: false, abortedAt };
+    }
+    if (!cancelled && keepCheckpoints) {
+      await this.host.clearCheckpoint(workflow.name);
     }
 
-    const allPassed = results.every(r => r.passed || r.skipped);
+    const allPassed = !cancelled && results.every(r => r.passed || r.skipped || r.recoveredBy);
     stream.markdown('\n---\n');
-    if (allPassed) {
+    if (cancelled) {
+      stream.markdown('### 🚫 Workflow cancelled\n');
+    } else if (allPassed) {
       stream.markdown('### ✅ Workflow completed successfully\n');
     } else {
-      const failed = results.filter(r => !r.passed && !r.skipped).map(r => r.id).join(', ');
+      const failed = results.filter(r => !r.passed && !r.skipped && !r.recoveredBy).map(r => r.id).join(', ');
       stream.markdown(`### ⚠️ Workflow completed with failures: \`${failed}\`\n`);
     }
+    this.showArtifacts(state.artifacts, stream);
 
-    return { workflowName: workflow.name, passed: allPassed, steps: results };
+    return { ...summary, passed: allPassed, ...(cancelled ? { cancelled } : {}) };
+  }
+
+  /**
+   * Runs the workflow once per matrix combination, each with fresh variables
+   * and step results, then shows a pass/fail table. A cancelled combination
+   * (or one stopped in the debugger) ends the matrix; the rest are not run.
+   */
+  private async runMatrix(
+    workflow: WorkflowDefinition,
+    matrix: WorkflowMatrix,
+    stream: StepStream,
+    token: CancellationSignal,
+    options: WorkflowRunOptions,
+  ): Promise<WorkflowRunResult> {
+    const startedAt = new Date().toISOString();
+
+    // String axes such as '{{release_branches}}' resolve against the built-ins and --var
+    const base = new Map<string, string>();
+    populateGitVariables(base, this.host.gitCwd(), this.host.setting('gitPlatform', 'auto'));
+    for (const [k, v] of Object.entries(options.variables ?? {})) base.set(k, v);
+    const combinations = expandMatrix(matrix, text => parseList(interpolate(text, base)));
+
+    stream.markdown(`## 🧩 Matrix: \`${workflow.name}\` — ${combinations.length} combination(s)\n\n`);
+    const summary = {
+      workflowName: workflow.name,
+      ...(options.background ? { trigger: options.background.trigger } : {}),
+      startedAt,
+      variables: { ...options.variables },
+    };
+    if (combinations.length === 0) {
+      stream.markdown('> ❌ The matrix has no combinations — check its values and `exclude`\n');
+      return { ...summary, passed: false, steps: [], finishedAt: new Date().toISOString() };
+    }
+
+    if (options.dryRun) {
+      stream.markdown(combinations.map(c => `- ${matrixLabel(c)}\n`).join('') + '\n');
+      stream.markdown(`> Planning \`${matrixLabel(combinations[0])}\`; the other combinations differ only in their matrix variables.\n\n`);
+      const variables = { ...options.variables, ...combinations[0] };
+      return { ...await this.runSingle(workflow, stream, token, { ...options, variables }, false), variables: summary.variables };
+    }
+
+    const cells: { combination: MatrixCombination; result?: WorkflowRunResult }[] = [];
+    let stopped = false;
+    for (const [i, combination] of combinations.entries()) {
+      if (stopped || token.isCancellationRequested) {
+        cells.push({ combination });
+        continue;
+      }
+      stream.markdown(`\n## 🧩 ${i + 1}/${combinations.length} — ${matrixLabel(combination)}\n\n`);
+      const variables = { ...options.variables, ...combination };
+      const result = await this.runSingle(workflow, stream, token, { ...options, variables }, false);
+      cells.push({ combination, result });
+      stopped = !!result.cancelled;
+    }
+
+    // ── Summary table ─────────────────────────────────────────────────────
+    const axes = Object.keys(combinations[0]);
+    stream.markdown(
+      `\n---\n### 🧩 Matrix summary — \`${workflow.name}\`\n\n` +
+      `| ${axes.join(' | ')} | Result |\n|${axes.map(() => '---|').join('')}---|\n` +
+      cells.map(({ combination, result }) =>
+        `| ${axes.map(a => tableCell(combination[a])).join(' | ')} | ${describeMatrixResult(result)} |\n`).join('') + '\n',
+    );
+
+    const cancelled = cells.some(c => !c.result || c.result.cancelled);
+    return {
+      ...summary,
+      passed: cells.every(c => c.result?.passed),
+      ...(cancelled ? { cancelled } : {}),
+      // Each combination's steps appear in the run history as '[branch=…] <step>'
+      steps: cells.flatMap(({ combination, result }) =>
+        (result?.steps ?? []).map(r => ({ ...r, id: `[${matrixLabel(combination)}] ${r.id}` }))),
+      artifacts: cells.flatMap(c => c.result?.artifacts ?? []),
+      finishedAt: new Date().toISOString(),
+    };
   }
 
   // ── Private step runners ───────────────────────────────────────────────
 
+  /**
+   * Evaluates a step's condition, runs it with retry support, captures its
+   * output variable and records the result. Used for top-level steps and for
+   * the children of a parallel group alike.
+   */
+  private async executeStep(
+    step: WorkflowStep,
+    state: RunState,
+    stream: StepStream,
+    token: CancellationSignal,
+  ): Promise<StepResult> {
+    const { variables, stepResults, results } = state;
+
+    // ── Evaluate condition ────────────────────────────────────────────────
+    if (step.condition) {
+      let conditionPassed: boolean;
+      try {
+        conditionPassed = evaluateCondition(step.condition, { steps: stepResults, variables });
+      } catch (err) {
+        // A malformed condition is a workflow bug — fail loudly, never guess
+        const msg = err instanceof ConditionSyntaxError ? err.message : String(err);
+        const r: StepResult = { id: step.id, passed: false, output: '', skipped: false, failReason: `Invalid condition: ${msg}` };
+        stepResults.set(step.id, r);
+        results.push(r);
+        stream.markdown(`> ❌ **\`${step.id}\`** — invalid condition \`${step.condition}\`: ${msg}\n\n`);
+        return r;
+      }
+      if (!conditionPassed) {
+        const r: StepResult = { id: step.id, passed: true, output: '', skipped: true };
+        stepResults.set(step.id, r);
+        results.push(r);
+        stream.markdown(`⏭️ **\`${step.id}\`** — skipped *(condition not met)*\n\n`);
+        return r;
+      }
+    }
+
+    // ── Execute with retry support ───────────────────────────────────────
+    const maxRetries = parseRetry(step.on_fail);
+    let attempt = 0;
+    let stepResult: StepResult | null = null;
+
+    while (attempt <= maxRetries) {
+      if (attempt > 0) {
+        stream.markdown(`  🔄 Retry ${attempt}/${maxRetries}…\n`);
+      }
+
+      stepResult = await this.runStep(step, state, stream, token, attempt);
+      if (stepResult.passed) break;
+
+      attempt++;
+      if (attempt > maxRetries) break;
+    }
+
+    if (!stepResult) {
+      stepResult = { id: step.id, passed: false, output: '', skipped: false, failReason: 'unknown' };
+    }
+
+    // ── Fallback once the step has failed for good ──────────────────────
+    if (isFatalFailure(step, stepResult) && step.on_fail_fallback) {
+      const recovered = await this.runFallback(step, state, stream, token);
+      if (recovered) stepResult = { ...stepResult, recoveredBy: recovered };
+    }
+
+    // Capture output variable — an answered input step always sets it, so a
+    // later "No" or empty answer replaces an earlier one
+    const answered = step.type === 'input' && stepResult.passed && !stepResult.skipped;
+    if (step.output && (stepResult.output || answered)) {
+      variables.set(step.output, stepResult.output);
+    }
+    if (step.artifacts && stepResult.output && !stepResult.skipped) {
+      await this.writeArtifacts(step, stepResult.output, state, stream);
+    }
+
+    stepResults.set(step.id, stepResult);
+    results.push(stepResult);
+    return stepResult;
+  }
+
+  /**
+   * Runs the step referenced by `on_fail_fallback`. Returns the fallback's id
+   * if it passed (the failed step then counts as recovered), else undefined.
+   */
+  private async runFallback(
+    step: WorkflowStep,
+    state: RunState,
+    stream: StepStream,
+    token: CancellationSignal,
+  ): Promise<string | undefined> {
+    const fallbackId = step.on_fail_fallback ?? '';
+    const fallback = findStep(state.workflow, fallbackId);
+    if (!fallback) {
+      stream.markdown(`> ⚠️ Fallback step \`${fallbackId}\` not found\n\n`);
+      return undefined;
+    }
+    if (state.activeFallbacks.has(fallbackId)) {
+      stream.markdown(`> ⚠️ Fallback \`${fallbackId}\` is already running — not re-entering\n\n`);
+      return undefined;
+    }
+
+    stream.markdown(`> ↪️ \`${step.id}\` failed — running fallback \`${fallbackId}\`\n\n`);
+    state.activeFallbacks.add(fallbackId);
+    try {
+      const r = await this.executeStep(fallback, state, stream, token);
+      return r.passed && !r.skipped ? fallbackId : undefined;
+    } finally {
+      state.activeFallbacks.delete(fallbackId);
+    }
+  }
+
+  /**
+   * Runs the workflow-level `finally:` steps. They always run — after success,
+   * abort or cancellation — and a failing cleanup step never stops the others.
+   * {{workflow_status}} and {{workflow_aborted_at}} describe how the run ended.
+   */
+  private async runFinallySteps(
+    state: RunState,
+    stream: StepStream,
+    token: CancellationSignal,
+    abortedAt: string | undefined,
+    cancelled: boolean,
+  ): Promise<void> {
+    const steps = state.workflow.finally ?? [];
+    if (steps.length === 0) return;
+
+    const failed = state.results.some(r => !r.passed && !r.skipped && !r.recoveredBy);
+    const status = cancelled ? 'cancelled' : abortedAt ? 'aborted' : failed ? 'failed' : 'passed';
+    state.variables.set('workflow_status', status);
+    state.variables.set('workflow_aborted_at', abortedAt ?? '');
+
+    // Cleanup must still run when the user pressed cancel, so give it a live token
+    const finallyToken = token.isCancellationRequested ? NEVER_CANCELLED : token;
+
+    stream.markdown('\n---\n\n**🧹 Cleanup**\n\n');
+    for (const step of steps) {
+      try {
+        await this.executeStep(step, state, stream, finallyToken);
+      } catch (err) {
+        stream.markdown(`> ❌ Cleanup step \`${step.id}\` threw: ${err instanceof Error ? err.message : String(err)}\n\n`);
+      }
+    }
+  }
+
   private async runStep(
     step: WorkflowStep,
-    variables: Map<string, string>,
-    stream: vscode.ChatResponseStream,
-    token: vscode.CancellationToken,
+    state: RunState,
+    stream: StepStream,
+    token: CancellationSignal,
+    attempt = 0,
   ): Promise<StepResult> {
+    const { variables } = state;
     const label = interpolate(step.description ?? step.id, variables);
     stream.markdown(`### 🔹 \`${step.id}\` — ${label}\n\n`);
 
+    if (state.background && !(await this.confirmBackgroundStep(step, state))) {
+      stream.markdown('> 🚫 Declined — not run\n\n');
+      return { id: step.id, passed: false, output: '', skipped: false, failReason: 'Declined by user' };
+    }
+    if (state.background && step.type === 'input') {
+      // Nobody is at the keyboard for a save or commit trigger — never pop a picker
+      const failReason = 'Input steps cannot run in a triggered workflow';
+      stream.markdown(`> ❌ ${failReason}\n\n`);
+      return { id: step.id, passed: false, output: '', skipped: false, failReason };
+    }
+
     try {
       switch (step.type) {
-        case 'agent':  return await this.runAgentStep(step, variables, stream, token);
-        case 'prompt': return await this.runPromptStep(step, variables, stream, token);
-        case 'shell':  return this.runShellStep(step, variables, stream);
-        case 'input':  return await this.runInputStep(step, variables, stream);
+        case 'agent':    return await this.runAgentStep(step, variables, stream, token, !state.background);
+        case 'prompt':   return await this.runPromptStep(step, variables, stream, token);
+        case 'shell':    return await this.runShellStep(step, variables, stream, token);
+        case 'input':    return await this.runInputStep(step, variables, stream);
+        case 'parallel': return await this.runParallelStep(step, state, stream, token, attempt);
+        case 'foreach':  return await this.runForeachStep(step, state, stream, token);
+        case 'tool':     return await this.runToolStep(step, variables, stream, token);
+        case 'workflow': return await this.runWorkflowStep(step, state, stream, token);
         default: {
           stream.markdown(`> ⚠️ Unknown step type: \`${(step as WorkflowStep).type}\`\n\n`);
           return { id: step.id, passed: false, output: '', skipped: false, failReason: `unknown type: ${step.type}` };
@@ -207,14 +571,37 @@ export class WorkflowEngine {
     }
   }
 
+  /**
+   * Triggered runs have no chat to watch them, so steps that change state —
+   * shell commands and tool calls — need an explicit Allow first. Tools that
+   * confirm on their own (Silver tools) are not asked twice.
+   */
+  private async confirmBackgroundStep(step: WorkflowStep, state: RunState): Promise<boolean> {
+    let action: string;
+    if (step.type === 'shell') {
+      action = `run \`${interpolate(step.command ?? '', state.variables)}\``;
+    } else if (step.type === 'tool') {
+      const toolName = interpolate(step.tool ?? '', state.variables);
+      if (this.host.tools.describe(toolName)?.confirms) return true;
+      action = `call tool ${toolName}`;
+    } else {
+      return true;
+    }
+
+    return this.host.ui.confirm(
+      `🤖 Background workflow "${state.callStack[0]}" (${state.background?.trigger}) wants to ${action}`,
+    );
+  }
+
   /**
    * Runs an 'agent' step: loads .github/agents/<name>.agent.md, calls LLM.
    */
   private async runAgentStep(
     step: WorkflowStep,
     variables: Map<string, string>,
-    stream: vscode.ChatResponseStream,
-    token: vscode.CancellationToken,
+    stream: StepStream,
+    token: CancellationSignal,
+    allowAutoStage = true,
   ): Promise<StepResult> {
     // Interpolate variables into agent name to support dynamic selection
     // e.g. agent: "{{selected_agent}}" → resolves to "reviewer-feature" at runtime
@@ -229,8 +616,8 @@ export class WorkflowEngine {
     let inputText = this.resolveInput(step.input, variables);
 
     // If staged diff is empty, auto-stage all modified tracked files and retry
-    if (step.input === 'git_diff_staged' && !inputText.trim()) {
-      const cwd = resolveGitCwd();
+    if (step.input === 'git_diff_staged' && !inputText.trim() && allowAutoStage) {
+      const cwd = this.host.gitCwd();
       try {
         execSync('git add -u', { encoding: 'utf8', cwd });
         inputText = this.resolveInput(step.input, variables);
@@ -249,30 +636,34 @@ export class WorkflowEngine {
       return { id: step.id, passed: false, output: '', skipped: false, failReason: msg };
     }
 
-    const model = await selectModel(agentModel);
+    const model = await this.selectStepModel(step, variables, stream, agentModel);
     if (!model) {
       return { id: step.id, passed: false, output: '', skipped: false, failReason: 'No LM available' };
     }
 
-    const messages: vscode.LanguageModelChatMessage[] = [
-      vscode.LanguageModelChatMessage.User(
-        '[SYSTEM] You are a code reviewer. Apply the instructions below autonomously. ' +
-        'Do NOT ask for more input. Review only what is provided in the diff below. ' +
-        'End your response with exactly `[PASS]` or `[FAIL]` on its own line.\n\n' +
-        `## Agent Instructions\n${agentBody}`,
-      ),
-      vscode.LanguageModelChatMessage.User(
-        `## Staged Diff to Review\n\`\`\`diff\n${inputText}\n\`\`\``,
-      ),
+    const verdict = step.output_format === 'json'
+      ? 'Put your verdict inside the JSON value you are asked for.'
+      : 'End your response with exactly `[PASS]` or `[FAIL]` on its own line.';
+    const system = step.system_prompt
+      ? interpolate(step.system_prompt, variables)
+      : 'You are a code reviewer. Apply the instructions below autonomously. ' +
+        'Do NOT ask for more input. Review only what is provided in the diff below.';
+    const messages: LlmMessage[] = [
+      { role: 'system', content: system },
+      { role: 'user', content: `${verdict}\n\n## Agent Instructions\n${agentBody}` },
+      { role: 'user', content: `## Staged Diff to Review\n\`\`\`diff\n${inputText}\n\`\`\`` },
     ];
 
-    let output = '';
-    const response = await model.sendRequest(messages, {}, token);
-    for await (const chunk of response.text) {
-      stream.markdown(chunk);
-      output += chunk;
+    let output: string;
+    if (step.output_format === 'json') {
+      const json = await this.requestJson(step, model, messages, stream, token);
+      if (json.failReason) {
+        return { id: step.id, passed: false, output: json.output, skipped: false, failReason: json.failReason, model: model.name };
+      }
+      output = json.output;
+    } else {
+      output = await streamResponse(model, messages, stream, token, requestOptions(step));
     }
-    stream.markdown('\n\n');
 
     const passed = checkExpect(output, step.expect);
     if (!passed) {
@@ -280,11 +671,11 @@ export class WorkflowEngine {
         ? `Expected \`${step.expect}\` not found in output`
         : 'Step failed';
       stream.markdown(`> ❌ ${failReason}\n\n`);
-      return { id: step.id, passed: false, output, skipped: false, failReason };
+      return { id: step.id, passed: false, output, skipped: false, failReason, model: model.name };
     }
 
     stream.markdown(`> ✅ Passed\n\n`);
-    return { id: step.id, passed: true, output, skipped: false };
+    return { id: step.id, passed: true, output, skipped: false, model: model.name };
   }
 
   /**
@@ -293,14 +684,14 @@ export class WorkflowEngine {
   private async runPromptStep(
     step: WorkflowStep,
     variables: Map<string, string>,
-    stream: vscode.ChatResponseStream,
-    token: vscode.CancellationToken,
+    stream: StepStream,
+    token: CancellationSignal,
   ): Promise<StepResult> {
-    const wsFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!wsFolder) return skipNoWorkspace(step.id);
+    const root = this.host.workspaceRoot();
+    if (!root) return skipNoWorkspace(step.id);
 
     const promptFile = step.prompt ?? '';
-    const promptPath = path.join(wsFolder.uri.fsPath, promptFile);
+    const promptPath = path.join(root, promptFile);
 
     if (!fs.existsSync(promptPath)) {
       const msg = `Prompt file not found: ${promptFile}`;
@@ -319,26 +710,32 @@ export class WorkflowEngine {
       ? `${promptContent}\n\n## Input\n${inputText}`
       : promptContent;
 
-    const model = await selectModel();
+    const model = await this.selectStepModel(step, variables, stream);
     if (!model) {
       return { id: step.id, passed: false, output: '', skipped: false, failReason: 'No LM available' };
     }
 
-    const messages = [vscode.LanguageModelChatMessage.User(fullPrompt)];
+    const messages: LlmMessage[] = [{ role: 'user', content: fullPrompt }];
+    if (step.system_prompt) {
+      messages.unshift({ role: 'system', content: interpolate(step.system_prompt, variables) });
+    }
 
-    let output = '';
-    const response = await model.sendRequest(messages, {}, token);
-    for await (const chunk of response.text) {
-      stream.markdown(chunk);
-      output += chunk;
+    let output: string;
+    if (step.output_format === 'json') {
+      const json = await this.requestJson(step, model, messages, stream, token);
+      if (json.failReason) {
+        return { id: step.id, passed: false, output: json.output, skipped: false, failReason: json.failReason, model: model.name };
+      }
+      output = json.output;
+    } else {
+      output = await streamResponse(model, messages, stream, token, requestOptions(step));
     }
-    stream.markdown('\n\n');
 
     const passed = checkExpect(output, step.expect);
     if (!passed) {
       const failReason = step.expect ? `Expected \`${step.expect}\` not found` : 'Step failed';
       stream.markdown(`> ❌ ${failReason}\n\n`);
-      return { id: step.id, passed: false, output, skipped: false, failReason };
+      return { id: step.id, passed: false, output, skipped: false, failReason, model: model.name };
     }
 
     // If this step's output will be captured as a variable, strip markdown
@@ -350,78 +747,336 @@ export class WorkflowEngine {
     }
 
     stream.markdown(`> ✅ Passed\n\n`);
-    return { id: step.id, passed: true, output: capturedOutput, skipped: false };
+    return { id: step.id, passed: true, output: capturedOutput, skipped: false, model: model.name };
   }
 
   /**
-   * Runs a 'shell' step: executes a command, captures stdout.
+   * Writes a step's output to each of its `artifacts:`. A file that cannot be
+   * written is reported but does not fail the step. Background runs ask first.
    */
-  private runShellStep(
+  private async writeArtifacts(step: WorkflowStep, output: string, state: RunState, stream: StepStream): Promise<void> {
+    const root = this.host.workspaceRoot();
+    if (!root) return;
+
+    if (state.background) {
+      const paths = (step.artifacts ?? []).map(a => interpolate(a.path, state.variables));
+      const allowed = await this.host.ui.confirm(
+        `🤖 Background workflow "${state.callStack[0]}" (${state.background.trigger}) wants to write ${paths.join(', ')}`,
+      );
+      if (!allowed) {
+        stream.markdown(`> 🚫 Declined — artifacts not written: ${paths.map(p => `\`${p}\``).join(', ')}\n\n`);
+        return;
+      }
+    }
+
+    for (const artifact of step.artifacts ?? []) {
+      const relative = interpolate(artifact.path, state.variables);
+      const format = artifact.format ?? 'text';
+      try {
+        if (/\{\{[^}]+\}\}/.test(relative)) throw new Error('the path has an unresolved variable');
+        const target = path.resolve(root, relative);
+        const inside = path.relative(root, target);
+        if (!inside || inside.startsWith('..') || path.isAbsolute(inside)) {
+          throw new Error('path is outside the workspace');
+        }
+        let content = output;
+        if (format === 'sarif') {
+          const { value, error } = extractJson(output);
+          if (error) throw new Error(error);
+          content = JSON.stringify(toSarif(value, `${state.callStack.join('/')}/${step.id}`), null, 2);
+        }
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, content.endsWith('\n') ? content : `${content}\n`, 'utf8');
+        state.artifacts.push({ stepId: step.id, path: inside.split(path.sep).join('/'), format });
+        stream.markdown(`> 📎 Wrote \`${relative}\`\n\n`);
+      } catch (err) {
+        stream.markdown(`> ⚠️ Artifact \`${relative}\` not written: ${err instanceof Error ? err.message : String(err)}\n\n`);
+      }
+    }
+  }
+
+  /** Lists the run's artifacts under its final status line. */
+  private showArtifacts(artifacts: WorkflowArtifact[], stream: StepStream): void {
+    const root = this.host.workspaceRoot();
+    if (!root || artifacts.length === 0) return;
+    stream.markdown('\n**📎 Artifacts**\n\n');
+    for (const a of artifacts) {
+      stream.markdown('- ');
+      if (stream.linkFile) {
+        stream.linkFile(path.join(root, a.path), a.path);
+      } else {
+        stream.markdown(`\`${a.path}\``);
+      }
+      stream.markdown(` — from \`${a.stepId}\`${a.format === 'sarif' ? ' (SARIF)' : ''}\n`);
+    }
+  }
+
+  /**
+   * Picks the model for an agent or prompt step — the step's `model:`, then
+   * the agent file's `model:`, then the workflowDefaultModel setting — and
+   * reports the one the host settled on.
+   */
+  private async selectStepModel(
     step: WorkflowStep,
     variables: Map<string, string>,
-    stream: vscode.ChatResponseStream,
-  ): StepResult {
-    const cwd = resolveGitCwd();
-    const rawCmd = step.command ?? '';
-    const cmd = interpolate(rawCmd, variables);
-
-    stream.markdown(`\`\`\`\n$ ${cmd}\n\`\`\`\n\n`);
+    stream: StepStream,
+    agentModel?: string,
+  ): Promise<LlmModel | undefined> {
+    const hint = (step.model ? interpolate(step.model, variables) : undefined)
+      ?? agentModel
+      ?? (this.host.setting<string>('workflowDefaultModel', '') || undefined);
+    const model = await this.host.llm.selectModel(hint);
+    if (model) stream.markdown(`> 🧠 Model: \`${model.name}\`\n\n`);
+    return model;
+  }
 
+  /**
+   * Asks the model for a JSON value (`output_format: json`), re-asking with
+   * the validation errors until it parses and matches the step's schema or
+   * `json_retries` is used up. On success `output` is the formatted JSON.
+   */
+  private async requestJson(
+    step: WorkflowStep,
+    model: LlmModel,
+    messages: LlmMessage[],
+    stream: StepStream,
+    token: CancellationSignal,
+  ): Promise<{ output: string; failReason?: string }> {
+    let schema: JsonSchema | undefined;
     try {
-      const stdout = execSync(cmd, {
-        encoding: 'utf8',
-        maxBuffer: 256 * 1024,
-        cwd,
-      }).trim();
-
-      if (stdout) stream.markdown(`\`\`\`\n${stdout}\n\`\`\`\n\n`);
-
-      const passed = checkExpect(stdout, step.expect);
-      if (!passed) {
-        const failReason = step.expect ? `Expected \`${step.expect}\` not found in output` : 'Command failed';
-        stream.markdown(`> ❌ ${failReason}\n\n`);
-        return { id: step.id, passed: false, output: stdout, skipped: false, failReason };
+      schema = this.loadSchema(step.schema);
+    } catch (err) {
+      const msg = `Cannot load schema: ${err instanceof Error ? err.message : String(err)}`;
+      stream.markdown(`> ❌ ${msg}\n\n`);
+      return { output: '', failReason: msg };
+    }
+
+    const conversation: LlmMessage[] = [
+      ...messages,
+      {
+        role: 'user',
+        content:
+          'Respond with a single JSON value only — no prose before or after it.' +
+          (schema ? `\nIt must conform to this JSON Schema:\n\`\`\`json\n${JSON.stringify(schema, null, 2)}\n\`\`\`` : ''),
+      },
+    ];
+    const maxRetries = step.json_retries ?? 2;
+
+    let raw = '';
+    let errors: string[] = [];
+    for (let attempt = 0; attempt <= maxRetries && !token.isCancellationRequested; attempt++) {
+      if (attempt > 0) {
+        stream.markdown(`> 🔁 Invalid JSON — asking again (${attempt}/${maxRetries})\n\n`);
+        conversation.push(
+          { role: 'assistant', content: raw },
+          {
+            role: 'user',
+            content:
+              'That response was rejected:\n' + errors.map(e => `- ${e}`).join('\n') +
+              '\nReply again with only the corrected JSON value.',
+          },
+        );
       }
 
-      stream.markdown('> ✅ Passed\n\n');
-      return { id: step.id, passed: true, output: stdout, skipped: false };
-    } catch (err) {
-      const stderr = (err as { stderr?: string }).stderr ?? String(err);
-      stream.markdown(`\`\`\`\n${stderr}\n\`\`\`\n\n`);
-      stream.markdown('> ❌ Command failed\n\n');
-      return { id: step.id, passed: false, output: stderr, skipped: false, failReason: stderr.slice(0, 200) };
+      raw = await streamResponse(model, conversation, stream, token, requestOptions(step));
+      const { value, error } = extractJson(raw);
+      errors = error ? [error] : schema ? validateJson(value, schema) : [];
+      if (errors.length === 0) {
+        return { output: JSON.stringify(value, null, 2) };
+      }
+      stream.markdown(errors.slice(0, 5).map(e => `> ⚠️ ${e}\n`).join('') + '\n');
     }
+
+    const failReason = `Output failed JSON validation: ${errors.slice(0, 3).join('; ')}`;
+    stream.markdown(`> ❌ ${failReason}\n\n`);
+    return { output: raw, failReason };
   }
 
   /**
-   * Runs an 'input' step: shows a VS Code input box, captures the answer.
-   * If optional: true, leaving the field empty still passes the step.
+   * Runs a 'shell' step: spawns the command without blocking the extension
+   * host, streams its output as it arrives, and captures stdout. The process
+   * is killed on cancellation or when the step's `timeout:` elapses.
+   */
+  private async runShellStep(
+    step: WorkflowStep,
+    variables: Map<string, string>,
+    stream: StepStream,
+    token: CancellationSignal,
+  ): Promise<StepResult> {
+    const cwd = this.host.gitCwd();
+    const cmd = interpolate(step.command ?? '', variables);
+    const env = step.env
+      ? Object.fromEntries(Object.entries(step.env).map(([k, v]) => [k, interpolate(String(v), variables)]))
+      : undefined;
+    const timeoutMs = parseTimeout(step.timeout);
+
+    const cmdFence = codeFence(cmd);
+    stream.markdown(`${cmdFence}\n$ ${cmd}\n${cmdFence}\n\n`);
+
+    // Output is streamed into an open code fence, closed when the command
+    // ends. A backtick run as long as the fence would close it early, so the
+    // block is then closed and reopened with a longer fence.
+    let fence = '';
+    let trailingTicks = 0;
+    let streamed = 0;
+    const result = await runShellCommand(cmd, {
+      cwd,
+      env,
+      timeoutMs,
+      token,
+      onOutput: chunk => {
+        if (streamed >= MAX_STREAMED_CHARS) return;
+        const text = stripAnsi(chunk).slice(0, MAX_STREAMED_CHARS - streamed);
+        const needed = codeFence('`'.repeat(trailingTicks) + text);
+        if (needed.length > fence.length) {
+          if (fence) stream.markdown(`\n${fence}\n`);
+          fence = needed;
+          stream.markdown(`${fence}\n`);
+        }
+        trailingTicks = /`*$/.exec(text)![0].length + (/^`*$/.test(text) ? trailingTicks : 0);
+        streamed += text.length;
+        stream.markdown(text);
+        if (streamed >= MAX_STREAMED_CHARS) stream.markdown('\n… [output truncated in chat]');
+      },
+    });
+    if (fence) stream.markdown(`\n${fence}\n\n`);
+
+    const stdout = result.stdout.trim();
+    const exitCode = result.exitCode ?? undefined;
+    const base = { id: step.id, output: stdout, skipped: false, ...(exitCode !== undefined ? { exitCode } : {}) };
+
+    let failReason: string | undefined;
+    if (result.cancelled) {
+      failReason = 'Cancelled — process killed';
+    } else if (result.timedOut) {
+      failReason = `Timed out after ${formatDuration(timeoutMs!)} — process killed`;
+    } else if (exitCode === undefined || !expectedExitCodes(step).includes(exitCode)) {
+      const stderrTail = result.stderr.trim().slice(-200);
+      failReason = `Command exited with code ${result.exitCode ?? 'unknown'}${stderrTail ? `: ${stderrTail}` : ''}`;
+    } else if (!checkExpect(stdout, step.expect)) {
+      failReason = `Expected \`${step.expect}\` not found in output`;
+    }
+
+    if (failReason) {
+      stream.markdown(`> ❌ ${failReason.split('\n')[0]}\n\n`);
+      return { ...base, passed: false, failReason };
+    }
+
+    stream.markdown(`> ✅ Passed${exitCode ? ` (exit code ${exitCode})` : ''}\n\n`);
+    return { ...base, passed: true };
+  }
+
+  /**
+   * Runs a 'tool' step through the host — in the extension an intent, a
+   * Silver tool (with HITL confirmation) or any registered LM / MCP tool —
+   * and captures its text.
+   */
+  private async runToolStep(
+    step: WorkflowStep,
+    variables: Map<string, string>,
+    stream: StepStream,
+    token: CancellationSignal,
+  ): Promise<StepResult> {
+    const toolName = interpolate(step.tool ?? '', variables);
+    if (!toolName) {
+      const msg = 'Tool step has no `tool` name';
+      stream.markdown(`> ⚠️ ${msg}\n\n`);
+      return { id: step.id, passed: false, output: '', skipped: false, failReason: msg };
+    }
+
+    const input = interpolateValue(step.with ?? {}, variables) as Record<string, unknown>;
+    stream.markdown(`> 🔧 \`${toolName}\`\n\n`);
+
+    const result = await this.host.tools.invoke(toolName, input, stream, token);
+    if (result.declined) {
+      stream.markdown('> 🚫 Cancelled by user\n\n');
+      return { id: step.id, passed: false, output: '', skipped: false, failReason: 'Tool invocation cancelled by user' };
+    }
+    const output = result.output;
+    if (result.failed) {
+      stream.markdown(`> ❌ ${output}\n\n`);
+      return { id: step.id, passed: false, output: output ?? '', skipped: false, failReason: output || 'Tool failed' };
+    }
+
+    if (output === undefined) {
+      const msg = `Tool \`${toolName}\` is not available or returned nothing`;
+      stream.markdown(`> ⚠️ ${msg}\n\n`);
+      return { id: step.id, passed: false, output: '', skipped: false, failReason: msg };
+    }
+
+    stream.markdown(`\`\`\`\n${output}\n\`\`\`\n\n`);
+
+    if (!checkExpect(output, step.expect)) {
+      const failReason = `Expected \`${step.expect}\` not found in output`;
+      stream.markdown(`> ❌ ${failReason}\n\n`);
+      return { id: step.id, passed: false, output, skipped: false, failReason };
+    }
+
+    stream.markdown('> ✅ Passed\n\n');
+    return { id: step.id, passed: true, output, skipped: false };
+  }
+
+  /**
+   * Runs an 'input' step: asks the user with the picker matching the step —
+   * Yes/No for `kind: confirm`, a (multi-select) quick pick for `choices`,
+   * otherwise an input box validated against `pattern`.
    */
   private async runInputStep(
     step: WorkflowStep,
     variables: Map<string, string>,
-    stream: vscode.ChatResponseStream,
+    stream: StepStream,
   ): Promise<StepResult> {
     const question = interpolate(step.question ?? step.description ?? step.id, variables);
     const placeholder = interpolate(step.placeholder ?? '', variables);
 
     stream.markdown(`> 💬 **Input required:** ${question}\n\n`);
 
-    const value = await vscode.window.showInputBox({
+    if (step.kind === 'confirm') {
+      const [answer] = await this.host.ui.pick(['Yes', 'No'], {
+        title: question,
+        placeHolder: placeholder || undefined,
+      }) ?? [];
+      if (answer === undefined) return this.inputCancelled(step, stream);
+      stream.markdown(`> ✅ Answered: **${answer}**\n\n`);
+      return { id: step.id, passed: true, output: answer === 'Yes' ? 'yes' : '', skipped: false };
+    }
+
+    if (step.choices !== undefined) {
+      const choices = Array.isArray(step.choices)
+        ? step.choices.map(c => interpolate(String(c), variables))
+        : parseList(interpolate(step.choices, variables));
+      if (choices.length === 0) {
+        stream.markdown('> ❌ No choices available to pick from\n\n');
+        return { id: step.id, passed: false, output: '', skipped: false, failReason: 'Empty choices list' };
+      }
+
+      const picked = await this.host.ui.pick(choices, {
+        title: question,
+        placeHolder: placeholder || undefined,
+        multi: step.multi,
+      });
+      if (picked === undefined) return this.inputCancelled(step, stream);
+
+      if (picked.length === 0 && !step.optional) {
+        stream.markdown('> ❌ Nothing selected\n\n');
+        return { id: step.id, passed: false, output: '', skipped: false, failReason: 'Empty selection' };
+      }
+      const display = picked.length ? picked.map(p => `\`${p}\``).join(', ') : '*(none — skipped)*';
+      stream.markdown(`> ✅ Selected: ${display}\n\n`);
+      return { id: step.id, passed: true, output: picked.join('\n'), skipped: false };
+    }
+
+    const pattern = step.pattern ? new RegExp(step.pattern) : undefined;
+    const value = await this.host.ui.inputBox({
       prompt: question,
       placeHolder: placeholder || undefined,
-      ignoreFocusOut: true,
+      validate: text => {
+        if (!pattern || (!text && step.optional)) return undefined;
+        return pattern.test(text) ? undefined : `Must match ${step.pattern}`;
+      },
     });
 
-    if (value === undefined) {
-      // User pressed Escape
-      if (step.optional) {
-        stream.markdown('> ⏭️ Input skipped (optional)\n\n');
-        return { id: step.id, passed: true, output: '', skipped: false };
-      }
-      stream.markdown('> ❌ Input cancelled\n\n');
-      return { id: step.id, passed: false, output: '', skipped: false, failReason: 'Input cancelled by user' };
-    }
+    if (value === undefined) return this.inputCancelled(step, stream);
 
     if (!value.trim() && !step.optional) {
       stream.markdown('> ❌ Input required but was empty\n\n');
@@ -433,18 +1088,489 @@ export class WorkflowEngine {
     return { id: step.id, passed: true, output: value, skipped: false };
   }
 
+  /** User pressed Escape on an input picker. */
+  private inputCancelled(step: WorkflowStep, stream: StepStream): StepResult {
+    if (step.optional) {
+      stream.markdown('> ⏭️ Input skipped (optional)\n\n');
+      return { id: step.id, passed: true, output: '', skipped: false };
+    }
+    stream.markdown('> ❌ Input cancelled\n\n');
+    return { id: step.id, passed: false, output: '', skipped: false, failReason: 'Input cancelled by user' };
+  }
+
+  /**
+   * Runs a 'parallel' step: starts every child at once and waits for all.
+   *
+   * Each child writes into its own buffer, which is flushed to the chat as one
+   * block when that child finishes — so concurrent LLM streams never interleave
+   * mid-sentence, while completed children still show up as soon as they end.
+   * Children run on copies of the variables; their outputs are merged back
+   * once all are done.
+   */
+  private async runParallelStep(
+    step: WorkflowStep,
+    state: RunState,
+    stream: StepStream,
+    token: CancellationSignal,
+    attempt: number,
+  ): Promise<StepResult> {
+    const children = step.steps ?? [];
+    if (children.length === 0) {
+      const msg = 'Parallel step has no child `steps`';
+      stream.markdown(`> ⚠️ ${msg}\n\n`);
+      return { id: step.id, passed: false, output: '', skipped: false, failReason: msg };
+    }
+
+    // A retry reruns only the children that failed; the others keep their result
+    const previous = new Map(children.map(c => [c.id, attempt > 0 ? state.stepResults.get(c.id) : undefined]));
+    const rerun = children.filter(c => { const r = previous.get(c.id); return !r || isFatalFailure(c, r); });
+    if (attempt > 0) {
+      // Their failed result from the last attempt is replaced, not repeated
+      for (const child of rerun) {
+        const at = state.results.map(r => r.id).lastIndexOf(child.id);
+        if (at >= 0) state.results.splice(at, 1);
+      }
+    }
+
+    stream.markdown(`> ⏳ Started ${rerun.length} steps: ${rerun.map(c => `\`${c.id}\``).join(', ')}\n\n`);
+
+    // Each child works on its own copy of the variables (a foreach's item /
+    // index, outputs) so siblings never see each other's values mid-run
+    const before = new Map(state.variables);
+    let remaining = rerun.length;
+    const finished = await Promise.all(rerun.map(async child => {
+      const buffer = new BufferedStream();
+      const variables = new Map(before);
+      const result = await this.executeStep(child, { ...state, variables }, buffer, token);
+      remaining--;
+      buffer.flushTo(stream);
+      const icon = result.skipped ? '⏭️' : result.passed ? '✅' : '❌';
+      stream.markdown(`> ${icon} \`${child.id}\` finished — ${remaining} of ${rerun.length} still running\n\n`);
+      return { child, result, variables };
+    }));
+
+    // Merge what each child produced, in declaration order
+    for (const { variables } of finished) {
+      for (const [k, v] of variables) {
+        if (before.get(k) !== v) state.variables.set(k, v);
+      }
+    }
+    const outcomes = children.map(child =>
+      finished.find(f => f.child === child) ?? { child, result: previous.get(child.id)! });
+
+    const fatal = outcomes.filter(o => isFatalFailure(o.child, o.result)).map(o => o.child.id);
+    const soft  = outcomes.filter(o => !o.result.passed && !isFatalFailure(o.child, o.result)).map(o => o.child.id);
+    if (soft.length > 0) {
+      stream.markdown(`> ⚠️ Continued past failed steps: \`${soft.join('`, `')}\`\n\n`);
+    }
+    if (fatal.length > 0) {
+      const failReason = `Parallel step(s) failed: ${fatal.join(', ')}`;
+      stream.markdown(`> ❌ ${failReason}\n\n`);
+      return { id: step.id, passed: false, output: '', skipped: false, failReason };
+    }
+
+    stream.markdown(`> ✅ All parallel steps done\n\n`);
+    return { id: step.id, passed: true, output: '', skipped: false };
+  }
+
+  /**
+   * Runs a 'foreach' step: executes the `steps:` body once per list item with
+   * {{item}} / {{index}} set. Body results are recorded as `<id>[<index>]`;
+   * the plain `<id>` always holds the latest iteration so sibling conditions
+   * inside the body work as usual.
+   */
+  private async runForeachStep(
+    step: WorkflowStep,
+    state: RunState,
+    stream: StepStream,
+    token: CancellationSignal,
+  ): Promise<StepResult> {
+    const body = step.steps ?? [];
+    if (body.length === 0) {
+      const msg = 'Foreach step has no body `steps`';
+      stream.markdown(`> ⚠️ ${msg}\n\n`);
+      return { id: step.id, passed: false, output: '', skipped: false, failReason: msg };
+    }
+
+    const { variables } = state;
+    const items = parseList(this.resolveInput(step.foreach, variables));
+    stream.markdown(`> 🔁 ${items.length} item(s)\n\n`);
+
+    // Preserve an enclosing loop's item/index so nested foreach steps work
+    const outerItem  = variables.get('item');
+    const outerIndex = variables.get('index');
+    const collected: string[] = [];
+    let failReason: string | undefined;
+
+    for (const [index, item] of items.entries()) {
+      if (token.isCancellationRequested) break;
+
+      variables.set('item', item);
+      variables.set('index', String(index));
+      stream.markdown(`#### [${index}] \`${truncate(item, 80)}\`\n\n`);
+
+      const iteration: RunState = { ...state, results: [] };
+      let lastOutput = '';
+      for (const child of body) {
+        const r = await this.executeStep(child, iteration, stream, token);
+        if (!r.skipped) lastOutput = r.output;
+        if (isFatalFailure(child, r)) {
+          failReason = `Iteration ${index} failed at \`${child.id}\``;
+          break;
+        }
+      }
+      state.results.push(...iteration.results.map(r => ({ ...r, id: `${r.id}[${index}]` })));
+      collected.push(lastOutput);
+      if (failReason) break;
+    }
+
+    restoreVariable(variables, 'item', outerItem);
+    restoreVariable(variables, 'index', outerIndex);
+
+    const output = JSON.stringify(collected);
+    if (failReason) {
+      stream.markdown(`> ❌ ${failReason}\n\n`);
+      return { id: step.id, passed: false, output, skipped: false, failReason };
+    }
+    if (step.output) {
+      stream.markdown(`> 📋 ${collected.length} result(s) captured to \`{{${step.output}}}\`\n\n`);
+    }
+    stream.markdown(`> ✅ Loop done\n\n`);
+    return { id: step.id, passed: true, output, skipped: false };
+  }
+
+  /**
+   * Runs a 'workflow' step: executes another workflow in its own variable
+   * scope, shown as a nested block, then copies its declared `outputs` back.
+   * The step passes if every step of the called workflow passed (or was
+   * skipped / recovered).
+   */
+  private async runWorkflowStep(
+    step: WorkflowStep,
+    state: RunState,
+    stream: StepStream,
+    token: CancellationSignal,
+  ): Promise<StepResult> {
+    const name = interpolate(step.workflow ?? '', state.variables);
+    const fail = (failReason: string): StepResult => {
+      stream.markdown(`> ❌ ${failReason}\n\n`);
+      return { id: step.id, passed: false, output: '', skipped: false, failReason };
+    };
+
+    const callee = this.loadWorkflow(name);
+    if (!callee) {
+      const broken = this.loadError(name);
+      return fail(broken ? `Workflow \`${name}\` does not parse: ${broken.message}` : `No workflow named \`${name}\` found`);
+    }
+    if (state.callStack.includes(callee.name)) {
+      return fail(`Recursive workflow call: ${[...state.callStack, callee.name].join(' → ')}`);
+    }
+    const errors = validateWorkflow(callee).filter(p => p.severity === 'error');
+    if (errors.length > 0) return fail(`Workflow \`${callee.name}\` is invalid: ${errors[0].message}`);
+
+    // Fresh scope: the caller's built-ins plus `with:`
+    const variables = new Map<string, string>();
+    for (const k of BUILTIN_VARIABLES) {
+      const v = state.variables.get(k);
+      if (v !== undefined) variables.set(k, v);
+    }
+    for (const [k, v] of Object.entries(step.with ?? {})) {
+      const value = interpolateValue(v, state.variables);
+      variables.set(k, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+
+    const child: RunState = {
+      workflow: callee,
+      variables,
+      stepResults: new Map(),
+      results: [],
+      activeFallbacks: new Set(),
+      callStack: [...state.callStack, callee.name],
+      background: state.background,
+      artifacts: state.artifacts,
+    };
+    const nested = new IndentedStream(stream);
+    nested.markdown(`**↳ Workflow \`${callee.name}\`**${callee.description ? ` — ${callee.description}` : ''}\n\n`);
+
+    let abortedAt: string | undefined;
+    try {
+      for (const s of callee.steps) {
+        if (token.isCancellationRequested) break;
+        const r = await this.executeStep(s, child, nested, token);
+        if (isFatalFailure(s, r)) {
+          abortedAt = s.id;
+          break;
+        }
+      }
+    } finally {
+      await this.runFinallySteps(child, nested, token, abortedAt, token.isCancellationRequested);
+    }
+    stream.markdown('\n');
+
+    // Nested results appear in the run history as '<step>/<child step>'
+    state.results.push(...child.results.map(r => ({ ...r, id: `${step.id}/${r.id}` })));
+
+    const outputs: Record<string, string> = {};
+    for (const key of callee.outputs ?? []) {
+      const v = variables.get(key);
+      if (v === undefined) continue;
+      outputs[key] = v;
+      state.variables.set(key, v);
+    }
+    const output = JSON.stringify(outputs);
+    const keys = Object.keys(outputs);
+    if (keys.length > 0) {
+      stream.markdown(`> 📤 Outputs: ${keys.map(k => `\`{{${k}}}\``).join(', ')}\n\n`);
+    }
+
+    const failed = child.results.filter(r => !r.passed && !r.skipped && !r.recoveredBy).map(r => r.id);
+    let failReason: string | undefined;
+    if (token.isCancellationRequested) failReason = `Workflow \`${callee.name}\` cancelled`;
+    else if (abortedAt) failReason = `Workflow \`${callee.name}\` aborted at \`${abortedAt}\``;
+    else if (failed.length > 0) failReason = `Workflow \`${callee.name}\` had failing steps: ${failed.join(', ')}`;
+
+    if (failReason) {
+      stream.markdown(`> ❌ ${failReason}\n\n`);
+      return { id: step.id, passed: false, output, skipped: false, failReason };
+    }
+    stream.markdown(`> ✅ Workflow \`${callee.name}\` completed\n\n`);
+    return { id: step.id, passed: true, output, skipped: false };
+  }
+
+  // ── Dry run ─────────────────────────────────────────────────────────────
+
+  /**
+   * Walks every step and reports what it WOULD do, without running a step
+   * command, a tool or an LLM call. Variables produced by earlier steps are
+   * tracked by name only, so conditions depending on them are reported as
+   * decided at runtime.
+   */
+  private planWorkflow(
+    workflow: WorkflowDefinition,
+    variables: Map<string, string>,
+    stream: StepStream,
+    startedAt: string,
+  ): WorkflowRunResult {
+    const known = new Set(variables.keys());
+    const problems: string[] = [];
+
+    stream.markdown(`\n**${workflow.steps.length} steps** — 🧪 **dry run**, nothing will be executed\n\n`);
+    stream.markdown('---\n\n');
+
+    this.planSteps(workflow.steps, [], workflow, variables, known, stream, problems);
+
+    if (workflow.finally?.length) {
+      stream.markdown('**🧹 Cleanup (always runs)**\n\n');
+      const finallyKnown = new Set([...known, 'workflow_status', 'workflow_aborted_at']);
+      this.planSteps(workflow.finally, [], workflow, variables, finallyKnown, stream, problems);
+    }
+
+    stream.markdown('\n---\n');
+    if (problems.length === 0) {
+      stream.markdown('### ✅ Plan looks complete — no undefined references found\n');
+    } else {
+      stream.markdown(`### ⚠️ ${problems.length} problem(s) found\n\n`);
+      for (const p of problems) stream.markdown(`- ${p}\n`);
+    }
+
+    return {
+      workflowName: workflow.name,
+      passed: problems.length === 0,
+      steps: [],
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      variables: Object.fromEntries(variables),
+    };
+  }
+
+  private planSteps(
+    steps: WorkflowStep[],
+    parents: string[],
+    workflow: WorkflowDefinition,
+    variables: Map<string, string>,
+    known: Set<string>,
+    stream: StepStream,
+    problems: string[],
+  ): void {
+    for (const step of steps) {
+      const trail = [...parents, step.id].map(id => `\`${id}\``).join(' › ');
+      const label = interpolate(step.description ?? '', variables);
+      stream.markdown(`### 🔹 ${trail} *(${step.type})*${label ? ` — ${label}` : ''}\n\n`);
+
+      const lines: string[] = [];
+      const flag = (what: string): void => {
+        problems.push(`\`${step.id}\`: ${what}`);
+        lines.push(`⚠️ ${what}`);
+      };
+
+      for (const name of findPlaceholders(step)) {
+        if (!known.has(rootVariable(name))) flag(`\`{{${name}}}\` is not defined before this step`);
+      }
+
+      // ── Condition ──────────────────────────────────────────────────────
+      if (step.condition) {
+        try {
+          const refs = conditionReferences(parseCondition(step.condition));
+          for (const r of refs.vars.filter(r => !known.has(r))) {
+            flag(`condition uses \`vars.${r}\`, which no earlier step produces`);
+          }
+          const atRuntime = refs.steps.length > 0 || refs.vars.some(r => !variables.has(r));
+          if (atRuntime) {
+            lines.push(`❔ Condition \`${step.condition}\` — decided at runtime`);
+          } else {
+            const willRun = evaluateCondition(step.condition, { steps: new Map(), variables });
+            lines.push(`${willRun ? '▶️ Will run' : '⏭️ Would be skipped'} — \`${step.condition}\``);
+          }
+        } catch (err) {
+          flag(`invalid condition \`${step.condition}\`: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+
+      // ── What the step does ─────────────────────────────────────────────
+      if (step.output_format === 'json') {
+        lines.push(`Output: JSON${typeof step.schema === 'string' ? ` (schema \`${step.schema}\`)` : step.schema ? ' (inline schema)' : ''}`);
+      }
+      const llm = [
+        step.model && `model \`${interpolate(step.model, variables)}\``,
+        step.temperature !== undefined && `temperature ${step.temperature}`,
+        step.max_tokens !== undefined && `max ${step.max_tokens} tokens`,
+        step.system_prompt && 'custom system prompt',
+      ].filter(Boolean);
+      if (llm.length > 0) lines.push(`LLM: ${llm.join(', ')}`);
+      for (const a of step.artifacts ?? []) {
+        lines.push(`Would write: \`${interpolate(a.path, variables)}\`${a.format === 'sarif' ? ' (SARIF)' : ''}`);
+      }
+      switch (step.type) {
+        case 'shell':
+          lines.push(`Would run: \`${interpolate(step.command ?? '', variables)}\``);
+          if (step.timeout !== undefined) lines.push(`Timeout: ${step.timeout}`);
+          if (step.env) lines.push(`Env: ${Object.keys(step.env).map(k => `\`${k}\``).join(', ')}`);
+          break;
+        case 'agent': {
+          const agentName = interpolate(step.agent ?? '', variables);
+          const { body, model } = this.loadAgentPrompt(agentName);
+          if (body) {
+            lines.push(`Agent file: \`.github/agents/${agentName}.agent.md\`${model ? ` (model hint: \`${model}\`)` : ''}`);
+          } else if (/\{\{/.test(agentName)) {
+            lines.push(`Agent \`${agentName}\` — resolved at runtime`);
+          } else {
+            flag(`agent file \`.github/agents/${agentName}.agent.md\` not found`);
+          }
+          break;
+        }
+        case 'prompt': {
+          const root = this.host.workspaceRoot();
+          const promptPath = root ? path.join(root, step.prompt ?? '') : '';
+          if (promptPath && fs.existsSync(promptPath)) {
+            lines.push(`Prompt file: \`${step.prompt}\``);
+            const body = fs.readFileSync(promptPath, 'utf8').replace(/^---[\s\S]*?---\s*\n/, '');
+            for (const m of body.matchAll(/\{\{([^}]+)\}\}/g)) {
+              const name = m[1].trim();
+              if (!known.has(rootVariable(name))) flag(`prompt file uses \`{{${name}}}\`, which is not defined`);
+            }
+          } else {
+            flag(`prompt file \`${step.prompt ?? ''}\` not found`);
+          }
+          break;
+        }
+        case 'input':
+          lines.push(`Would ask: "${interpolate(step.question ?? step.description ?? step.id, variables)}"`);
+          if (step.kind === 'confirm') {
+            lines.push('Picker: Yes / No');
+          } else if (step.choices !== undefined) {
+            const source = Array.isArray(step.choices) ? '' : interpolate(step.choices, variables);
+            const count = Array.isArray(step.choices) ? `${step.choices.length} choice(s)`
+              : /\{\{/.test(source) ? 'choices resolved at runtime' : `${parseList(source).length} choice(s)`;
+            lines.push(`Picker: ${step.multi ? 'multi-select' : 'single'} quick pick — ${count}`);
+          } else if (step.pattern) {
+            lines.push(`Answer must match \`${step.pattern}\``);
+          }
+          break;
+        case 'tool': {
+          const toolName = interpolate(step.tool ?? '', variables);
+          const target = this.host.tools.describe(toolName);
+          if (!target) {
+            flag(`no available tool matches \`${toolName}\``);
+          } else {
+            lines.push(`Would call ${target.label}${target.confirms ? ' after asking for confirmation' : ''}`);
+          }
+          if (step.with) {
+            lines.push(`With: \`${JSON.stringify(interpolateValue(step.with, variables))}\``);
+          }
+          break;
+        }
+        case 'parallel':
+          lines.push(`Runs ${step.steps?.length ?? 0} steps concurrently:`);
+          break;
+        case 'foreach': {
+          const source = step.foreach ?? '';
+          const resolvable = [...source.matchAll(/\{\{([^}]+)\}\}/g)].every(m => variables.has(m[1].trim()));
+          lines.push(resolvable && source
+            ? `Loops over ${parseList(interpolate(source, variables)).length} item(s) of \`${source}\``
+            : `Loops over \`${source}\` — item count known at runtime`);
+          break;
+        }
+        case 'workflow': {
+          const name = interpolate(step.workflow ?? '', variables);
+          const callee = /\{\{/.test(name) ? undefined : this.loadWorkflow(name);
+          if (callee) {
+            lines.push(`Would run workflow \`${callee.name}\` (${callee.steps.length} steps)`);
+            if (callee.outputs?.length) lines.push(`Returns: ${callee.outputs.map(o => `\`{{${o}}}\``).join(', ')}`);
+            for (const o of callee.outputs ?? []) known.add(o);
+          } else if (/\{\{/.test(name)) {
+            lines.push(`Workflow \`${name}\` — resolved at runtime`);
+          } else {
+            flag(`workflow \`${name}\` not found`);
+          }
+          if (step.with) lines.push(`With: \`${JSON.stringify(interpolateValue(step.with, variables))}\``);
+          break;
+        }
+        default:
+          flag(`unknown step type \`${(step as WorkflowStep).type}\``);
+      }
+
+      if (step.input) lines.push(`Input: \`${step.input}\``);
+      if (step.expect) lines.push(`Passes if output contains \`${step.expect}\``);
+      if (step.on_fail) lines.push(`On failure: \`${step.on_fail}\``);
+      if (step.on_fail_fallback) {
+        if (findStep(workflow, step.on_fail_fallback)) lines.push(`Fallback: \`${step.on_fail_fallback}\``);
+        else flag(`fallback step \`${step.on_fail_fallback}\` does not exist`);
+      }
+      if (step.output) lines.push(`Captures output into \`{{${step.output}}}\``);
+
+      for (const l of lines) stream.markdown(`- ${l}\n`);
+      stream.markdown('\n');
+
+      // ── Nested bodies ──────────────────────────────────────────────────
+      if (step.type === 'parallel' && step.steps) {
+        // Each child sees only what existed before the group; outputs count after it
+        const produced = step.steps.map(child => {
+          const own = new Set(known);
+          this.planSteps([child], [...parents, step.id], workflow, variables, own, stream, problems);
+          return own;
+        });
+        for (const name of produced.flatMap(s => [...s])) known.add(name);
+      } else if (step.type === 'foreach' && step.steps) {
+        const bodyKnown = new Set([...known, 'item', 'index']);
+        this.planSteps(step.steps, [...parents, step.id], workflow, variables, bodyKnown, stream, problems);
+      }
+
+      if (step.output) known.add(step.output);
+    }
+  }
+
   // ── Helpers ─────────────────────────────────────────────────────────────
 
   private workflowDir(): string | null {
-    const wsFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!wsFolder) return null;
-    return path.join(wsFolder.uri.fsPath, '.github', 'workflows', 'silver');
+    const root = this.host.workspaceRoot();
+    if (!root) return null;
+    return path.join(root, '.github', 'workflows', 'silver');
   }
 
   private loadAgentPrompt(agentName: string): { body: string; model?: string } {
-    const wsFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!wsFolder) return { body: '' };
-    const agentPath = path.join(wsFolder.uri.fsPath, '.github', 'agents', `${agentName}.agent.md`);
+    const root = this.host.workspaceRoot();
+    if (!root) return { body: '' };
+    const agentPath = path.join(root, '.github', 'agents', `${agentName}.agent.md`);
     if (!fs.existsSync(agentPath)) return { body: '' };
     try {
       const raw = fs.readFileSync(agentPath, 'utf8');
@@ -460,14 +1586,28 @@ export class WorkflowEngine {
     } catch { return { body: '' }; }
   }
 
+  /**
+   * Resolves a step's `schema:` — inline object, or a .json file path
+   * relative to the workspace root. Throws if the file is missing or invalid.
+   */
+  private loadSchema(schema: WorkflowStep['schema']): JsonSchema | undefined {
+    if (schema === undefined) return undefined;
+    if (typeof schema !== 'string') return schema as JsonSchema;
+
+    const root = this.host.workspaceRoot();
+    if (!root) throw new Error('no workspace folder open');
+    const raw = fs.readFileSync(path.join(root, schema), 'utf8');
+    return JSON.parse(raw) as JsonSchema;
+  }
+
   private resolveInput(input: string | undefined, variables: Map<string, string>): string {
     if (!input) return '';
 
     // Variable reference
     const varMatch = input.match(/^\{\{(.+)\}\}$/);
-    if (varMatch) return variables.get(varMatch[1].trim()) ?? '';
+    if (varMatch) return resolvePath(varMatch[1].trim(), variables) ?? '';
 
-    const cwd = resolveGitCwd();
+    const cwd = this.host.gitCwd();
     const opts = { encoding: 'utf8' as const, maxBuffer: 512 * 1024, cwd };
 
     try {
@@ -491,28 +1631,113 @@ export class WorkflowEngine {
 // Module-level helpers
 // ---------------------------------------------------------------------------
 
+/** One cell of the matrix summary table */
+function describeMatrixResult(result: WorkflowRunResult | undefined): string {
+  if (!result) return '⏹️ not run';
+  if (result.cancelled) return '🚫 cancelled';
+  if (result.passed) return '✅ passed';
+  if (result.abortedAt) return `❌ aborted at \`${result.abortedAt}\``;
+  const failed = result.steps.filter(r => !r.passed && !r.skipped && !r.recoveredBy).map(r => `\`${r.id}\``);
+  return `⚠️ failed: ${failed.join(', ')}`;
+}
+
+/** A value safe inside a markdown table cell: no `|` column break, one line */
+function tableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/** Records a step the user skipped from the debugger without running it. */
+function skipInDebugger(step: WorkflowStep, state: RunState, stream: StepStream): StepResult {
+  const r: StepResult = { id: step.id, passed: true, output: '', skipped: true };
+  state.stepResults.set(step.id, r);
+  state.results.push(r);
+  stream.markdown(`⏭️ **\`${step.id}\`** — skipped *(debugger)*\n\n`);
+  return r;
+}
+
+/**
+ * True when a failed step should stop its enclosing flow: on_fail is 'abort'
+ * (the default) or a retry whose attempts are exhausted, and no
+ * on_fail_fallback step recovered it.
+ */
+function isFatalFailure(step: WorkflowStep, result: StepResult): boolean {
+  if (result.passed || result.recoveredBy) return false;
+  const strategy = step.on_fail ?? 'abort';
+  return strategy === 'abort' || strategy.startsWith('retry');
+}
+
+/** A step's `temperature:` / `max_tokens:`, or undefined when it sets neither */
+function requestOptions(step: WorkflowStep): LlmRequestOptions | undefined {
+  if (step.temperature === undefined && step.max_tokens === undefined) return undefined;
+  return { temperature: step.temperature, maxTokens: step.max_tokens };
+}
+
+/**
+ * Sends `messages`, streams the reply into the chat and returns its full text.
+ */
+async function streamResponse(
+  model: LlmModel,
+  messages: LlmMessage[],
+  stream: StepStream,
+  token: CancellationSignal,
+  options?: LlmRequestOptions,
+): Promise<string> {
+  let output = '';
+  for await (const chunk of model.send(messages, token, options)) {
+    stream.markdown(chunk);
+    output += chunk;
+  }
+  stream.markdown('\n\n');
+  return output;
+}
+
+/**
+ * Collects markdown in memory so a step running inside a parallel group can
+ * be shown as one contiguous block once it completes.
+ */
+class BufferedStream implements StepStream {
+  private readonly parts: string[] = [];
+
+  markdown(value: string | { value: string }): void {
+    this.parts.push(typeof value === 'string' ? value : value.value);
+  }
+
+  flushTo(stream: StepStream): void {
+    if (this.parts.length > 0) stream.markdown(this.parts.join(''));
+    this.parts.length = 0;
+  }
+}
+
 /**
- * Selects the best available LM. Tries the agent-specified model first,
- * then falls back through claude → gpt-4o → any available model.
+ * Prefixes every line with '> ' so a called workflow's steps render as a
+ * nested block; chunks may split lines anywhere.
  */
-async function selectModel(hint?: string): Promise<vscode.LanguageModelChat | null> {
-  // Try the agent-specified model (e.g. 'claude-sonnet-4-5')
-  if (hint) {
-    // hint may be 'claude-sonnet-4-5' → family='claude', or 'gpt-4o' → family='gpt-4o'
-    const family = hint.startsWith('claude') ? 'claude' : hint;
-    const byHint = await vscode.lm.selectChatModels({ family });
-    if (byHint.length > 0) return byHint[0];
-    // Try exact id match
-    const byId = await vscode.lm.selectChatModels({ id: hint });
-    if (byId.length > 0) return byId[0];
-  }
-  // Fallback chain: claude → gpt-4o → any
-  for (const family of ['claude', 'gpt-4o', 'copilot']) {
-    const m = await vscode.lm.selectChatModels({ family });
-    if (m.length > 0) return m[0];
-  }
-  const any = await vscode.lm.selectChatModels({});
-  return any[0] ?? null;
+class IndentedStream implements StepStream {
+  private atLineStart = true;
+
+  constructor(private readonly target: StepStream) {}
+
+  markdown(value: string | { value: string }): void {
+    const text = typeof value === 'string' ? value : value.value;
+    let out = '';
+    for (const ch of text) {
+      if (this.atLineStart) out += '> ';
+      out += ch;
+      this.atLineStart = ch === '\n';
+    }
+    if (out) this.target.markdown(out);
+  }
+}
+
+function expectedExitCodes(step: WorkflowStep): number[] {
+  const v = step.expect_exit_code;
+  if (v === undefined) return [0];
+  return Array.isArray(v) ? v : [v];
+}
+
+function stripAnsi(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '');
 }
 
 function checkExpect(output: string, expect?: string): boolean {
@@ -521,41 +1746,19 @@ function checkExpect(output: string, expect?: string): boolean {
 }
 
 /**
- * Evaluates a condition expression like "steps.review.passed && steps.static.passed"
- * Only supports: steps.<id>.passed references, &&, ||, !, parentheses.
+ * Looks up a step by id among the workflow's `fallbacks:` and `steps:`
+ * (including steps nested in parallel / foreach bodies).
  */
-function evaluateCondition(
-  condition: string,
-  results: Map<string, StepResult>,
-  variables: Map<string, string>,
-): boolean {
-  // Replace steps.<id>.passed with true/false
-  let expr = condition.replace(/steps\.([a-zA-Z0-9_-]+)\.passed/g, (_m, id) => {
-    const r = results.get(id);
-    return r ? String(r.passed) : 'false';
-  });
-
-  // Replace steps.<id>.skipped
-  expr = expr.replace(/steps\.([a-zA-Z0-9_-]+)\.skipped/g, (_m, id) => {
-    const r = results.get(id);
-    return r ? String(r.skipped) : 'false';
-  });
-
-  // Replace vars.<name> → true if variable is non-empty, false otherwise
-  expr = expr.replace(/vars\.([a-zA-Z0-9_]+)/g, (_m, name) => {
-    const val = variables.get(name);
-    return val && val.trim() ? 'true' : 'false';
-  });
-
-  // Evaluate only if safe (only contains booleans, logic operators, parens)
-  if (/^[truefalse&|!\s()]+$/.test(expr)) {
-    try {
-      // eslint-disable-next-line no-new-func
-      return Boolean(new Function(`return (${expr})`)());
-    } catch { return false; }
-  }
-
-  return false;
+function findStep(workflow: WorkflowDefinition, id: string): WorkflowStep | undefined {
+  const search = (steps: WorkflowStep[] | undefined): WorkflowStep | undefined => {
+    for (const s of steps ?? []) {
+      if (s.id === id) return s;
+      const nested = search(s.steps);
+      if (nested) return nested;
+    }
+    return undefined;
+  };
+  return search(workflow.fallbacks) ?? search(workflow.steps);
 }
 
 /**
@@ -568,10 +1771,58 @@ function parseRetry(onFail?: string): number {
 }
 
 /**
- * Replaces {{variable_name}} placeholders in a string.
+ * Splits a foreach source into items: a JSON array yields its elements
+ * (non-strings re-serialised), anything else yields its non-empty lines.
+ */
+function parseList(text: string): string[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed) as unknown;
+      if (Array.isArray(parsed)) {
+        return parsed.map(v => typeof v === 'string' ? v : JSON.stringify(v));
+      }
+    } catch { /* not JSON — treat as lines */ }
+  }
+  return trimmed.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+}
+
+function restoreVariable(variables: Map<string, string>, name: string, value: string | undefined): void {
+  if (value === undefined) variables.delete(name);
+  else variables.set(name, value);
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+/**
+ * Replaces {{variable_name}} placeholders in a string. Paths into JSON
+ * variables ({{review.issues[0].file}}) are resolved too.
  */
 function interpolate(text: string, variables: Map<string, string>): string {
-  return text.replace(/\{\{([^}]+)\}\}/g, (_m, key) => variables.get(key.trim()) ?? _m);
+  return text.replace(/\{\{([^}]+)\}\}/g, (_m, key: string) => resolvePath(key.trim(), variables) ?? _m);
+}
+
+/**
+ * Interpolates every string inside a YAML value (objects and arrays included).
+ */
+function interpolateValue(value: unknown, variables: Map<string, string>): unknown {
+  if (typeof value === 'string') return interpolate(value, variables);
+  if (Array.isArray(value)) return value.map(v => interpolateValue(v, variables));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, interpolateValue(v, variables)]),
+    );
+  }
+  return value;
+}
+
+/** A code fence longer than any backtick run in `text` (at least ```) */
+function codeFence(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
 }
 
 /**
@@ -592,31 +1843,6 @@ function skipNoWorkspace(id: string): StepResult {
   return { id, passed: false, output: '', skipped: false, failReason: 'No workspace folder open' };
 }
 
-/**
- * Returns the git repository root for the currently active editor file.
- * Falls back to the first workspace folder if no editor is open or the
- * file is not inside a git repo.
- *
- * This correctly handles workspaces where the open folder (e.g. d:\AI) is
- * a different git repo than the file being edited (e.g. d:\AI\silver-engineer).
- */
-function resolveGitCwd(): string | undefined {
-  // 1. Try active editor's file path first
-  const activeUri = vscode.window.activeTextEditor?.document.uri;
-  if (activeUri && activeUri.scheme === 'file') {
-    const fileDir = path.dirname(activeUri.fsPath);
-    try {
-      const root = execSync('git rev-parse --show-toplevel', {
-        encoding: 'utf8',
-        cwd: fileDir,
-      }).trim();
-      if (root) return root;
-    } catch { /* not a git repo, fall through */ }
-  }
-  // 2. Fall back to workspace folder
-  return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-}
-
 // ---------------------------------------------------------------------------
 // Git platform detection
 // ---------------------------------------------------------------------------
@@ -631,14 +1857,14 @@ function resolveGitCwd(): string | undefined {
  *   {{git_recent_commits}} — last 5 commit messages (one per line)
  *   {{git_jira_ticket}}  — JIRA project prefix if detected (e.g. 'PROJ'), else ''
  */
-function populateGitVariables(variables: Map<string, string>): void {
-  const cwd = resolveGitCwd();
-  const opts = { encoding: 'utf8' as const, cwd };
-
-  // Allow user to override platform detection via VS Code setting
-  const platformOverride = vscode.workspace
-    .getConfiguration('silverEngineer')
-    .get<string>('gitPlatform', 'auto');
+function populateGitVariables(
+  variables: Map<string, string>,
+  cwd: string | undefined,
+  // Allow user to override platform detection via the silverEngineer.gitPlatform setting
+  platformOverride: string,
+): void {
+  // stderr ignored: outside a git repo git's complaints would leak onto the CLI's terminal
+  const opts = { encoding: 'utf8' as const, cwd, stdio: ['ignore', 'pipe', 'ignore'] as ('ignore' | 'pipe')[] };
 
   try {
     const remoteUrl = execSync('git remote get-url origin', opts).trim();
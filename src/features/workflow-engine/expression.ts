@@ -0,0 +1,379 @@
+import type { StepResult } from './types';
+import { resolvePath } from './json-output';
+
+// ---------------------------------------------------------------------------
+// Condition expressions
+//
+// A small, safe expression language for `condition:` — parsed into an AST
+// and interpreted; nothing is ever handed to eval / new Function.
+//
+//   Literals     'text', "text", 42, 1.5, true, false, null
+//   References   steps.<id>.passed | skipped | output | exit_code | fail_reason
+//                vars.<name>[.field | [N] …]   (paths into JSON outputs)
+//                env.<NAME>                    (process environment)
+//   Operators    ||  &&  !  ==  !=  <  <=  >  >=  ( … )
+//   Functions    contains(a, b)  startsWith(a, b)  endsWith(a, b)
+//                matches(a, 'regex')  length(a)
+//
+// Truthiness: '', '[]', 'false', 'null', 0, false, null and missing values
+// are false; everything else is true. `<`, `>`… compare numerically when both
+// sides are numbers (or numeric strings), otherwise as strings.
+// ---------------------------------------------------------------------------
+
+export class ConditionSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} (at column ${position + 1})`);
+    this.name = 'ConditionSyntaxError';
+  }
+}
+
+export type Expr =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'step'; id: string; field: StepField }
+  | { kind: 'var'; path: string }
+  | { kind: 'env'; name: string }
+  | { kind: 'not'; operand: Expr }
+  | { kind: 'binary'; op: BinaryOp; left: Expr; right: Expr }
+  | { kind: 'call'; fn: FunctionName; args: Expr[] };
+
+export interface ConditionContext {
+  steps: Map<string, StepResult>;
+  variables: Map<string, string>;
+  env?: NodeJS.ProcessEnv;
+}
+
+type Value = string | number | boolean | null | undefined;
+type BinaryOp = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=';
+type StepField = (typeof STEP_FIELDS)[number];
+type FunctionName = keyof typeof FUNCTIONS;
+
+const STEP_FIELDS = ['passed', 'skipped', 'output', 'exit_code', 'fail_reason'] as const;
+
+const FUNCTIONS = {
+  contains:   (a: Value, b: Value) => str(a).includes(str(b)),
+  startsWith: (a: Value, b: Value) => str(a).startsWith(str(b)),
+  endsWith:   (a: Value, b: Value) => str(a).endsWith(str(b)),
+  matches:    (a: Value, b: Value) => new RegExp(str(b)).test(str(a)),
+  length:     (a: Value) => str(a).length,
+} satisfies Record<string, (...args: Value[]) => Value>;
+
+/** Parses and evaluates in one go. Throws ConditionSyntaxError on bad syntax. */
+export function evaluateCondition(condition: string, ctx: ConditionContext): boolean {
+  return truthy(evaluate(parseCondition(condition), ctx));
+}
+
+/** Parses a condition into an AST. Throws ConditionSyntaxError on bad syntax. */
+export function parseCondition(text: string): Expr {
+  return new Parser(text).parse();
+}
+
+/** Step ids and variable roots an expression refers to (for validation). */
+export function conditionReferences(expr: Expr): { steps: string[]; vars: string[] } {
+  const steps = new Set<string>();
+  const vars = new Set<string>();
+  const walk = (e: Expr): void => {
+    switch (e.kind) {
+      case 'step':   steps.add(e.id); break;
+      case 'var':    vars.add(e.path.split(/[.[]/, 1)[0]); break;
+      case 'not':    walk(e.operand); break;
+      case 'binary': walk(e.left); walk(e.right); break;
+      case 'call':   e.args.forEach(walk); break;
+    }
+  };
+  walk(expr);
+  return { steps: [...steps], vars: [...vars] };
+}
+
+export function evaluate(expr: Expr, ctx: ConditionContext): Value {
+  switch (expr.kind) {
+    case 'literal': return expr.value;
+    case 'env':     return (ctx.env ?? process.env)[expr.name];
+    case 'var':     return resolvePath(expr.path, ctx.variables);
+    case 'not':     return !truthy(evaluate(expr.operand, ctx));
+    case 'call':    return (FUNCTIONS[expr.fn] as (...a: Value[]) => Value)(...expr.args.map(a => evaluate(a, ctx)));
+    case 'step': {
+      const r = ctx.steps.get(expr.id);
+      switch (expr.field) {
+        case 'passed':      return r?.passed ?? false;
+        case 'skipped':     return r?.skipped ?? false;
+        case 'output':      return r?.output;
+        case 'exit_code':   return r?.exitCode;
+        case 'fail_reason': return r?.failReason;
+      }
+      return undefined;
+    }
+    case 'binary': {
+      if (expr.op === '&&') return truthy(evaluate(expr.left, ctx)) && truthy(evaluate(expr.right, ctx));
+      if (expr.op === '||') return truthy(evaluate(expr.left, ctx)) || truthy(evaluate(expr.right, ctx));
+      return compare(expr.op, evaluate(expr.left, ctx), evaluate(expr.right, ctx));
+    }
+  }
+}
+
+export function truthy(v: Value): boolean {
+  if (typeof v === 'string') {
+    const t = v.trim();
+    return t !== '' && t !== '[]' && t !== 'false' && t !== 'null';
+  }
+  return Boolean(v);
+}
+
+// ---------------------------------------------------------------------------
+// Parser — recursive descent, lowest precedence first:
+//   or → and → not → comparison → primary
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: 'num'; value: number; pos: number }
+  | { type: 'str'; value: string; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'eof'; pos: number };
+
+class Parser {
+  private readonly tokens: Token[];
+  private i = 0;
+
+  constructor(text: string) {
+    this.tokens = tokenize(text);
+  }
+
+  parse(): Expr {
+    if (this.peek().type === 'eof') throw new ConditionSyntaxError('Empty condition', 0);
+    const expr = this.parseOr();
+    const rest = this.peek();
+    if (rest.type !== 'eof') throw new ConditionSyntaxError(`Unexpected ${describe(rest)}`, rest.pos);
+    return expr;
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.acceptOp('||')) left = { kind: 'binary', op: '||', left, right: this.parseAnd() };
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.acceptOp('&&')) left = { kind: 'binary', op: '&&', left, right: this.parseNot() };
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.acceptOp('!')) return { kind: 'not', operand: this.parseNot() };
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parsePrimary();
+    const t = this.peek();
+    if (t.type === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(t.value)) {
+      this.i++;
+      return { kind: 'binary', op: t.value as BinaryOp, left, right: this.parsePrimary() };
+    }
+    return left;
+  }
+
+  private parsePrimary(): Expr {
+    const t = this.next();
+    switch (t.type) {
+      case 'num': return { kind: 'literal', value: t.value };
+      case 'str': return { kind: 'literal', value: t.value };
+      case 'op':
+        if (t.value === '(') {
+          const inner = this.parseOr();
+          this.expectOp(')', 'to close "("');
+          return inner;
+        }
+        throw new ConditionSyntaxError(`Unexpected ${describe(t)}`, t.pos);
+      case 'eof':
+        throw new ConditionSyntaxError('Condition ends unexpectedly', t.pos);
+      case 'ident':
+        return this.parseIdentifier(t.value, t.pos);
+    }
+  }
+
+  private parseIdentifier(name: string, pos: number): Expr {
+    if (name === 'true' || name === 'false') return { kind: 'literal', value: name === 'true' };
+    if (name === 'null') return { kind: 'literal', value: null };
+
+    if (name === 'steps') {
+      const id = this.member('a step id after "steps."');
+      const field = this.member(`a field after "steps.${id}." (${STEP_FIELDS.join(', ')})`);
+      if (!(STEP_FIELDS as readonly string[]).includes(field)) {
+        throw new ConditionSyntaxError(`Unknown step field "${field}" — expected ${STEP_FIELDS.join(', ')}`, pos);
+      }
+      return { kind: 'step', id, field: field as StepField };
+    }
+    if (name === 'vars') {
+      let path = this.member('a variable name after "vars."');
+      for (;;) {
+        if (this.peekOp('.')) { path += `.${this.member('a field name after "."')}`; continue; }
+        if (this.peekOp('[')) {
+          this.i++;
+          const idx = this.next();
+          if (idx.type !== 'num' || !Number.isInteger(idx.value)) {
+            throw new ConditionSyntaxError('Expected an array index inside "[ ]"', idx.pos);
+          }
+          this.expectOp(']', 'after the array index');
+          path += `[${idx.value}]`;
+          continue;
+        }
+        return { kind: 'var', path };
+      }
+    }
+    if (name === 'env') return { kind: 'env', name: this.member('a variable name after "env."') };
+
+    if (Object.hasOwn(FUNCTIONS, name)) { // not `in`: "constructor" etc. live on the prototype
+      this.expectOp('(', `after "${name}"`);
+      const args: Expr[] = [];
+      if (!this.acceptOp(')')) {
+        do { args.push(this.parseOr()); } while (this.acceptOp(','));
+        this.expectOp(')', `to close "${name}("`);
+      }
+      const arity = FUNCTIONS[name as FunctionName].length;
+      if (args.length !== arity) {
+        throw new ConditionSyntaxError(`${name}() takes ${arity} argument${arity === 1 ? '' : 's'}, got ${args.length}`, pos);
+      }
+      if (name === 'matches' && args[1].kind === 'literal') {
+        try { new RegExp(str(args[1].value)); } catch (err) {
+          throw new ConditionSyntaxError(`Invalid regex in matches(): ${(err as Error).message}`, pos);
+        }
+      }
+      return { kind: 'call', fn: name as FunctionName, args };
+    }
+
+    throw new ConditionSyntaxError(
+      `Unknown name "${name}" — use steps.<id>.<field>, vars.<name>, env.<NAME>, a literal, or one of ${Object.keys(FUNCTIONS).join(', ')}()`,
+      pos,
+    );
+  }
+
+  /** Consumes `.name` and returns `name`. */
+  private member(what: string): string {
+    this.expectOp('.', `before ${what}`);
+    const t = this.next();
+    if (t.type === 'ident') return t.value;
+    if (t.type === 'num' && Number.isInteger(t.value)) return String(t.value);
+    throw new ConditionSyntaxError(`Expected ${what}`, t.pos);
+  }
+
+  private peek(): Token { return this.tokens[this.i]; }
+  private next(): Token { return this.tokens[Math.min(this.i++, this.tokens.length - 1)]; }
+
+  private peekOp(op: string): boolean {
+    const t = this.peek();
+    return t.type === 'op' && t.value === op;
+  }
+
+  private acceptOp(op: string): boolean {
+    if (!this.peekOp(op)) return false;
+    this.i++;
+    return true;
+  }
+
+  private expectOp(op: string, context: string): void {
+    const t = this.peek();
+    if (!this.acceptOp(op)) throw new ConditionSyntaxError(`Expected "${op}" ${context}, found ${describe(t)}`, t.pos);
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (/\s/.test(c)) { i++; continue; }
+
+    if (c === "'" || c === '"') {
+      let value = '';
+      let j = i + 1;
+      while (j < text.length && text[j] !== c) {
+        if (text[j] === '\\' && j + 1 < text.length) j++;
+        value += text[j++];
+      }
+      if (j >= text.length) throw new ConditionSyntaxError('Unterminated string', i);
+      tokens.push({ type: 'str', value, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    const num = /^-?\d+(\.\d+)?/.exec(text.slice(i));
+    if (num && (c !== '-' || !endsOperand(tokens))) {
+      tokens.push({ type: 'num', value: Number(num[0]), pos: i });
+      i += num[0].length;
+      continue;
+    }
+
+    // Identifiers may contain '-' so step ids like `review-style` work
+    const ident = /^[A-Za-z_][\w-]*/.exec(text.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '(', ')', '[', ']', '.', ',']
+      .find(o => text.startsWith(o, i));
+    if (!op) {
+      const hint = c === '=' ? ' — use "==" to compare' : c === '&' || c === '|' ? ` — use "${c}${c}"` : '';
+      throw new ConditionSyntaxError(`Unexpected character "${c}"${hint}`, i);
+    }
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+  tokens.push({ type: 'eof', pos: text.length });
+  return tokens;
+}
+
+/** True if the previous token ends an operand (so a following '-' is not a sign). */
+function endsOperand(tokens: Token[]): boolean {
+  const last = tokens[tokens.length - 1];
+  return !!last && (last.type === 'num' || last.type === 'str' || last.type === 'ident' ||
+    (last.type === 'op' && (last.value === ')' || last.value === ']')));
+}
+
+function describe(t: Token): string {
+  switch (t.type) {
+    case 'eof':   return 'end of condition';
+    case 'str':   return `string '${t.value}'`;
+    case 'num':   return `number ${t.value}`;
+    default:      return `"${t.value}"`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+
+function compare(op: BinaryOp, a: Value, b: Value): boolean {
+  // Booleans compare by truthiness so `steps.x.passed == 'true'` behaves
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    const x = truthy(a), y = truthy(b);
+    return op === '==' ? x === y : op === '!=' ? x !== y : false;
+  }
+  if (a === undefined || a === null || b === undefined || b === null) {
+    const same = (a ?? null) === (b ?? null);
+    return op === '==' ? same : op === '!=' ? !same : false;
+  }
+
+  const x = toNumber(a), y = toNumber(b);
+  const numeric = x !== undefined && y !== undefined;
+  const l: number | string = numeric ? x : String(a);
+  const r: number | string = numeric ? y : String(b);
+  switch (op) {
+    case '==': return l === r;
+    case '!=': return l !== r;
+    case '<':  return l < r;
+    case '<=': return l <= r;
+    case '>':  return l > r;
+    default:   return l >= r;
+  }
+}
+
+function toNumber(v: string | number): number | undefined {
+  if (typeof v === 'number') return v;
+  const t = v.trim();
+  return t !== '' && !Number.isNaN(Number(t)) ? Number(t) : undefined;
+}
+
+function str(v: Value): string {
+  return v === undefined || v === null ? '' : String(v);
+}
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import type { SecretManager } from '../../core/storage/secrets';
+import { SECRET_KEYS } from '../../core/storage/secrets';
+import { REDACTED, isSensitiveName, redactValues } from './redact';
+import type { StepResult, WorkflowArtifact, WorkflowCheckpoint, WorkflowRunResult } from './types';
+
+// ---------------------------------------------------------------------------
+// Run history — audit trail of every workflow run
+// ---------------------------------------------------------------------------
+//
+// Each run is one JSON file under globalStorageUri/workflow-runs/<id>.json.
+// Variables and step outputs are redacted before they touch disk:
+//   - variables whose NAME looks sensitive (token, secret, password, …)
+//   - any stored SecretManager value appearing inside a variable or output
+//
+// Resume checkpoints live next to them in workflow-checkpoints/<name>.json.
+// They hold the raw variable map (a resume needs real values) and are deleted
+// as soon as the workflow finishes without aborting.
+// ---------------------------------------------------------------------------
+
+export interface WorkflowRunRecord {
+  /** Sortable id: '<yyyymmdd-hhmmss>-<rand>' */
+  id: string;
+  workflowName: string;
+  startedAt: string;
+  finishedAt: string;
+  passed: boolean;
+  abortedAt?: string;
+  cancelled?: boolean;
+  /** Set for background runs — what started them */
+  trigger?: string;
+  variables: Record<string, string>;
+  steps: StepResult[];
+  artifacts?: WorkflowArtifact[];
+}
+
+export type WorkflowRunSummary = Omit<WorkflowRunRecord, 'variables' | 'steps' | 'artifacts'> & {
+  stepCount: number;
+};
+
+const RUNS_DIR         = 'workflow-runs';
+const CHECKPOINTS_DIR  = 'workflow-checkpoints';
+const MAX_RUNS         = 200;      // oldest runs beyond this are pruned
+const MAX_OUTPUT_CHARS = 20_000;   // per step — LLM reviews can be long
+
+/**
+ * RunHistory — persists WorkflowRunResult objects so past runs can be listed,
+ * filtered and reopened from `@silver /runs` and the dashboard.
+ */
+export class RunHistory {
+  private readonly dir: string;
+  private readonly checkpointDir: string;
+
+  constructor(
+    ctx: vscode.ExtensionContext,
+    private readonly secrets: SecretManager,
+  ) {
+    this.dir = path.join(ctx.globalStorageUri.fsPath, RUNS_DIR);
+    this.checkpointDir = path.join(ctx.globalStorageUri.fsPath, CHECKPOINTS_DIR);
+  }
+
+  // ── Write ─────────────────────────────────────────────────────────────────
+
+  /** Redacts and stores a finished run. Returns the stored record. */
+  async save(result: WorkflowRunResult): Promise<WorkflowRunRecord> {
+    const secretValues = await this.loadSecretValues(result.variables);
+    const scrub = (text: string): string => redactValues(text, secretValues);
+
+    const record: WorkflowRunRecord = {
+      id: makeRunId(result.startedAt),
+      workflowName: result.workflowName,
+      startedAt: result.startedAt,
+      finishedAt: result.finishedAt,
+      passed: result.passed,
+      ...(result.abortedAt ? { abortedAt: result.abortedAt } : {}),
+      ...(result.cancelled ? { cancelled: true } : {}),
+      ...(result.trigger ? { trigger: result.trigger } : {}),
+      variables: Object.fromEntries(
+        Object.entries(result.variables).map(([k, v]) =>
+          [k, isSensitiveName(k) ? REDACTED : scrub(v)]),
+      ),
+      steps: result.steps.map(s => ({
+        ...s,
+        output: scrub(truncateOutput(s.output)),
+        ...(s.failReason ? { failReason: scrub(s.failReason) } : {}),
+      })),
+      ...(result.artifacts ? { artifacts: result.artifacts } : {}),
+    };
+
+    try {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(
+        path.join(this.dir, `${record.id}.json`),
+        JSON.stringify(record, null, 2),
+        'utf8',
+      );
+      await this.prune();
+    } catch (err) {
+      console.error('[SilverEngineer] Run history save error:', err);
+    }
+    return record;
+  }
+
+  // ── Read ──────────────────────────────────────────────────────────────────
+
+  /**
+   * Lists runs newest first. `filter` is a space-separated list of terms; each
+   * term must match the workflow name, the run id, or a status keyword
+   * (passed | failed | aborted | cancelled).
+   */
+  async list(filter = '', limit = 50): Promise<WorkflowRunSummary[]> {
+    const terms = filter.toLowerCase().split(/\s+/).filter(Boolean);
+    const summaries: WorkflowRunSummary[] = [];
+
+    for (const file of this.listFiles()) {
+      const record = await this.readFile(file);
+      if (!record) continue;
+      if (!terms.every(t => matchesTerm(record, t))) continue;
+
+      summaries.push(toSummary(record));
+      if (summaries.length >= limit) break;
+    }
+    return summaries;
+  }
+
+  async get(id: string): Promise<WorkflowRunRecord | undefined> {
+    if (!/^[\w-]+$/.test(id)) return undefined;
+    return this.readFile(`${id}.json`);
+  }
+
+  // ── Resume checkpoints ────────────────────────────────────────────────────
+
+  async saveCheckpoint(checkpoint: WorkflowCheckpoint): Promise<void> {
+    try {
+      await fs.promises.mkdir(this.checkpointDir, { recursive: true });
+      await fs.promises.writeFile(
+        this.checkpointPath(checkpoint.workflowName),
+        JSON.stringify(checkpoint, null, 2),
+        'utf8',
+      );
+    } catch (err) {
+      console.error('[SilverEngineer] Checkpoint save error:', err);
+    }
+  }
+
+  async loadCheckpoint(workflowName: string): Promise<WorkflowCheckpoint | undefined> {
+    try {
+      const raw = await fs.promises.readFile(this.checkpointPath(workflowName), 'utf8');
+      return JSON.parse(raw) as WorkflowCheckpoint;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async clearCheckpoint(workflowName: string): Promise<void> {
+    await fs.promises.unlink(this.checkpointPath(workflowName)).catch(() => undefined);
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private checkpointPath(workflowName: string): string {
+    return path.join(this.checkpointDir, `${workflowName.replace(/[^\w.-]/g, '_')}.json`);
+  }
+
+  /** Run files, newest first (ids sort chronologically). */
+  private listFiles(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(f => f.endsWith('.json'))
+      .sort()
+      .reverse();
+  }
+
+  private async readFile(file: string): Promise<WorkflowRunRecord | undefined> {
+    try {
+      const raw = await fs.promises.readFile(path.join(this.dir, file), 'utf8');
+      return JSON.parse(raw) as WorkflowRunRecord;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const stale = this.listFiles().slice(MAX_RUNS);
+    await Promise.all(stale.map(f => fs.promises.unlink(path.join(this.dir, f)).catch(() => undefined)));
+  }
+
+  /** Stored secrets plus the values of sensitive-named run variables */
+  private async loadSecretValues(variables: Record<string, string>): Promise<string[]> {
+    const values = await Promise.all(
+      Object.values(SECRET_KEYS).map(k => this.secrets.get(k).then(v => v, () => undefined)),
+    );
+    values.push(...Object.entries(variables).filter(([k]) => isSensitiveName(k)).map(([, v]) => v));
+    // Very short values would redact unrelated text — skip them
+    return values.filter((v): v is string => !!v && v.length >= 6);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module-level helpers
+// ---------------------------------------------------------------------------
+
+export function runStatus(run: Pick<WorkflowRunRecord, 'passed' | 'abortedAt' | 'cancelled'>): string {
+  if (run.cancelled) return 'cancelled';
+  if (run.abortedAt) return 'aborted';
+  return run.passed ? 'passed' : 'failed';
+}
+
+function toSummary(record: WorkflowRunRecord): WorkflowRunSummary {
+  const { id, workflowName, startedAt, finishedAt, passed, abortedAt, cancelled, trigger } = record;
+  return {
+    id, workflowName, startedAt, finishedAt, passed,
+    ...(abortedAt ? { abortedAt } : {}),
+    ...(cancelled ? { cancelled } : {}),
+    ...(trigger ? { trigger } : {}),
+    stepCount: record.steps.length,
+  };
+}
+
+function matchesTerm(record: WorkflowRunRecord, term: string): boolean {
+  if (term === runStatus(record)) return true;
+  // 'failed' also covers aborted and cancelled runs
+  if (term === 'failed' && !record.passed) return true;
+  return record.workflowName.toLowerCase().includes(term) || record.id.includes(term);
+}
+
+function makeRunId(startedAt: string): string {
+  const stamp = startedAt.replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const rand  = Math.random().toString(36).slice(2, 6);
+  return `${stamp}-${rand}`;
+}
+
+function truncateOutput(text: string): string {
+  return text.length > MAX_OUTPUT_CHARS
+    ? text.slice(0, MAX_OUTPUT_CHARS) + `\n… [truncated ${text.length - MAX_OUTPUT_CHARS} chars]`
+    : text;
+}
@@ -0,0 +1,131 @@
+import type { WorkflowCheckpoint } from './types';
+
+// ---------------------------------------------------------------------------
+// WorkflowHost — everything the engine needs from its surroundings
+//
+// The engine itself is plain Node: it reads YAML, runs shell commands and
+// interpolates variables. Anything that depends on where it runs — the LLM,
+// pickers, tool invocation, checkpoints, settings — comes through a host:
+//
+//   vscode-host.ts → the extension (vscode.lm, QuickPick, ToolRegistry, …)
+//   cli/host.ts    → `silver run` (OpenAI-compatible or mock LLM, stdin prompts)
+//
+// No vscode import here or in engine.ts, so the CLI bundle runs without it.
+// ---------------------------------------------------------------------------
+
+/** Structural subset of vscode.CancellationToken — VS Code tokens satisfy it. */
+export interface CancellationSignal {
+  readonly isCancellationRequested: boolean;
+  onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+/** Where the engine writes progress (markdown). The chat stream satisfies it. */
+export interface StepStream {
+  markdown(value: string | { value: string }): void;
+  /**
+   * Inline link to a file the run wrote (chat: anchor + reference). Without
+   * it the engine prints the workspace-relative path.
+   */
+  linkFile?(absolutePath: string, title: string): void;
+}
+
+// ── LLM ───────────────────────────────────────────────────────────────────
+
+export interface LlmMessage {
+  /** 'system' only ever comes first; endpoints without a system role fold it into a user message */
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** Per-request sampling options — a step's `temperature:` and `max_tokens:` */
+export interface LlmRequestOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmEndpoint {
+  /**
+   * Picks a model — `hint` is the step's `model:`, else the agent file's
+   * `model:` front matter, else the workflowDefaultModel setting.
+   * Returns undefined when no model is available.
+   */
+  selectModel(hint?: string): Promise<LlmModel | undefined>;
+}
+
+export interface LlmModel {
+  /** Shown in progress output and run history, e.g. 'gpt-4o' */
+  readonly name: string;
+  /** Sends the conversation and yields the reply as text chunks */
+  send(messages: LlmMessage[], token: CancellationSignal, options?: LlmRequestOptions): AsyncIterable<string>;
+}
+
+// ── User interaction ──────────────────────────────────────────────────────
+
+export interface WorkflowUI {
+  /** Free-text answer; undefined if the user cancelled */
+  inputBox(options: {
+    prompt: string;
+    placeHolder?: string;
+    /** Returns an error message for invalid input */
+    validate?: (value: string) => string | undefined;
+  }): Promise<string | undefined>;
+
+  /** One (or, with `multi`, several) of `items`; undefined if cancelled */
+  pick(items: string[], options: { title: string; placeHolder?: string; multi?: boolean }): Promise<string[] | undefined>;
+
+  /** Modal "Allow" confirmation for a state-changing action */
+  confirm(message: string): Promise<boolean>;
+}
+
+// ── Tools ─────────────────────────────────────────────────────────────────
+
+export interface ToolInvocation {
+  /** Tool output text; undefined if the tool is unavailable */
+  output?: string;
+  /** The tool ran but reported failure */
+  failed?: boolean;
+  /** The user declined the confirmation */
+  declined?: boolean;
+}
+
+export interface WorkflowTools {
+  /**
+   * How `name` would be resolved — e.g. 'intent JIRA_GET_ISSUE → jira_get'.
+   * Used by the dry-run planner; undefined when nothing matches.
+   */
+  describe(name: string): { label: string; confirms: boolean } | undefined;
+
+  invoke(
+    name: string,
+    input: Record<string, unknown>,
+    stream: StepStream,
+    token: CancellationSignal,
+  ): Promise<ToolInvocation>;
+}
+
+// ── Host ──────────────────────────────────────────────────────────────────
+
+export interface WorkflowHost {
+  /** Root of the workspace holding .github/ — undefined if none is open */
+  workspaceRoot(): string | undefined;
+
+  /** Directory git and shell commands run in */
+  gitCwd(): string | undefined;
+
+  /** Reads a `silverEngineer.*` setting */
+  setting<T>(key: string, fallback: T): T;
+
+  readonly llm: LlmEndpoint;
+  readonly ui: WorkflowUI;
+  readonly tools: WorkflowTools;
+
+  /** Resume checkpoints; a host without persistence can make these no-ops */
+  saveCheckpoint(checkpoint: WorkflowCheckpoint): Promise<void>;
+  clearCheckpoint(workflowName: string): Promise<void>;
+}
+
+/** A CancellationSignal that never fires — e.g. for cleanup after cancel. */
+export const NEVER_CANCELLED: CancellationSignal = {
+  isCancellationRequested: false,
+  onCancellationRequested: () => ({ dispose: () => undefined }),
+};
@@ -0,0 +1,194 @@
+// ---------------------------------------------------------------------------
+// Structured step output — `output_format: json`
+//
+// Pure helpers (no vscode import):
+//   extractJson   → pulls the first JSON value out of an LLM reply (code
+//                   fences, prose and [PASS] lines around it are ignored)
+//   validateJson  → checks a value against the JSON Schema subset workflows
+//                   use: type, properties, required, additionalProperties,
+//                   items, enum, minimum/maximum, minItems/maxItems,
+//                   minLength/maxLength, pattern
+//   resolvePath   → reads `review.issues[0].file` out of the variable map,
+//                   where `review` holds a JSON document
+// ---------------------------------------------------------------------------
+
+export type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+};
+
+/**
+ * Extracts the first JSON object or array in `text`: each `{` / `[` is
+ * matched to its closing bracket (skipping string contents) and the first
+ * span that parses wins, so prose or `[PASS]` lines on either side are ignored.
+ * Returns the parsed value, or an error message describing why it failed.
+ */
+export function extractJson(text: string): { value?: unknown; error?: string } {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+  const candidate = fenced ? fenced[1] : text;
+
+  let firstError: string | undefined;
+  for (let start = candidate.search(/[[{]/); start >= 0; start = nextOpening(candidate, start + 1)) {
+    const end = matchingClose(candidate, start);
+    if (end < 0) {
+      firstError ??= 'JSON value is not closed';
+      continue;
+    }
+    try {
+      return { value: JSON.parse(candidate.slice(start, end + 1)) };
+    } catch (err) {
+      firstError ??= `Invalid JSON: ${(err as Error).message}`;
+    }
+  }
+  return { error: firstError ?? 'No JSON object or array found in the response' };
+}
+
+/**
+ * Validates `value` against `schema`. Returns one message per violation,
+ * each prefixed with the JSON path it concerns (e.g. `$.issues[2].line`).
+ */
+export function validateJson(value: unknown, schema: JsonSchema, at = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      return [`${at}: expected ${types.join(' | ')}, got ${typeOf(value)}`];
+    }
+  }
+  if (schema.enum && !schema.enum.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${at}: must be one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at}: must be <= ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${at}: shorter than ${schema.minLength}`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${at}: longer than ${schema.maxLength}`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${at}: must match ${schema.pattern}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${at}: needs at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${at}: allows at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${at}[${i}]`)));
+    }
+  } else if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) errors.push(`${at}: missing required property \`${key}\``);
+    }
+    for (const [key, v] of Object.entries(value)) {
+      const sub = schema.properties?.[key];
+      if (sub) errors.push(...validateJson(v, sub, `${at}.${key}`));
+      else if (schema.additionalProperties === false) errors.push(`${at}: unexpected property \`${key}\``);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Resolves a variable reference that may carry a path: `name`,
+ * `name.field`, `name.list[0].field`. Returns undefined if the root variable
+ * is missing, is not JSON, or the path does not exist.
+ * Strings are returned as-is; other values are JSON-encoded.
+ */
+export function resolvePath(ref: string, variables: Map<string, string>): string | undefined {
+  const direct = variables.get(ref);
+  if (direct !== undefined) return direct;
+
+  const m = ref.match(/^([A-Za-z0-9_-]+)((?:\.[A-Za-z0-9_-]+|\[\d+\])+)$/);
+  if (!m) return undefined;
+  const root = variables.get(m[1]);
+  if (root === undefined) return undefined;
+
+  let node: unknown;
+  try {
+    node = JSON.parse(root);
+  } catch {
+    return undefined;
+  }
+
+  for (const [, key, index] of m[2].matchAll(/\.([A-Za-z0-9_-]+)|\[(\d+)\]/g)) {
+    if (index !== undefined) {
+      if (!Array.isArray(node)) return undefined;
+      node = node[Number(index)];
+    } else if (key === 'length' && Array.isArray(node)) {
+      node = node.length;
+    } else {
+      if (!isPlainObject(node)) return undefined;
+      node = Object.hasOwn(node, key) ? node[key] : undefined; // not `constructor`, `__proto__`
+    }
+    if (node === undefined) return undefined;
+  }
+  return typeof node === 'string' ? node : JSON.stringify(node);
+}
+
+/** Root variable name of a reference like `review.issues[0]` → `review`. */
+export function rootVariable(ref: string): string {
+  return ref.split(/[.[]/, 1)[0];
+}
+
+// ---------------------------------------------------------------------------
+
+function nextOpening(text: string, from: number): number {
+  const i = text.slice(from).search(/[[{]/);
+  return i < 0 ? -1 : from + i;
+}
+
+/** Index of the bracket closing the one at `start`, or -1 if unbalanced */
+function matchingClose(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+    } else if (ch === '}' || ch === ']') {
+      if (stack.pop() !== ch) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number':  return typeof value === 'number';
+    case 'null':    return value === null;
+    case 'array':   return Array.isArray(value);
+    case 'object':  return isPlainObject(value);
+    default:        return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
@@ -0,0 +1,47 @@
+import type { MatrixScalar, WorkflowMatrix } from './types';
+
+// ---------------------------------------------------------------------------
+// Workflow matrix — expands `matrix:` into variable combinations
+//
+//   matrix:
+//     branch: [release/1.x, release/2.x]
+//     target: [arm64, x86_64]
+//     exclude:
+//       - { branch: release/1.x, target: arm64 }
+//
+// → three runs of the whole workflow, each with {{branch}} and {{target}} set.
+// An axis may also be a string resolving to a list (JSON array or one value
+// per line), e.g. '{{release_branches}}' passed in with `silver run --var`.
+// Pure (no vscode import) so the validator can use it.
+// ---------------------------------------------------------------------------
+
+export type MatrixCombination = Record<string, string>;
+
+/**
+ * The matrix's variables and their values, in declaration order.
+ * `resolveList` turns a string axis into its values.
+ */
+export function matrixAxes(matrix: WorkflowMatrix, resolveList: (text: string) => string[]): [string, string[]][] {
+  return Object.entries(matrix)
+    .filter(([name]) => name !== 'exclude')
+    .map(([name, values]) => [
+      name,
+      typeof values === 'string' ? resolveList(values) : (values as MatrixScalar[]).map(String),
+    ]);
+}
+
+/** Every combination of the axes, minus those matching an `exclude` entry */
+export function expandMatrix(matrix: WorkflowMatrix, resolveList: (text: string) => string[]): MatrixCombination[] {
+  let combinations: MatrixCombination[] = [{}];
+  for (const [name, values] of matrixAxes(matrix, resolveList)) {
+    combinations = combinations.flatMap(c => values.map(v => ({ ...c, [name]: v })));
+  }
+  const exclude = matrix.exclude ?? [];
+  return combinations.filter(c =>
+    !exclude.some(e => Object.entries(e).every(([k, v]) => c[k] === String(v))));
+}
+
+/** e.g. 'branch=release/1.x, target=x86_64' */
+export function matrixLabel(combination: MatrixCombination): string {
+  return Object.entries(combination).map(([k, v]) => `${k}=${v}`).join(', ');
+}
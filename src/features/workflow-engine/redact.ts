@@ -0,0 +1,23 @@
+// ---------------------------------------------------------------------------
+// Redaction for stored run history — pure (no vscode import)
+//
+//   isSensitiveName → variable names whose values are never stored
+//   redactValues    → replaces every occurrence of known secret values
+// ---------------------------------------------------------------------------
+
+export const REDACTED = '‹redacted›';
+
+/** `auth` only as a whole word part, so `author` / `commit_author` stay visible */
+const SENSITIVE_NAME = /token|secret|password|passwd|api[_-]?key|credential|(^|[_-])auth([_-]|$)/i;
+
+export function isSensitiveName(name: string): boolean {
+  return SENSITIVE_NAME.test(name);
+}
+
+export function redactValues(text: string, secretValues: string[]): string {
+  let out = text;
+  for (const v of secretValues) {
+    out = out.split(v).join(REDACTED);
+  }
+  return out;
+}
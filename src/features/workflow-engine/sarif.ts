@@ -0,0 +1,109 @@
+// ---------------------------------------------------------------------------
+// SARIF artifacts — `artifacts: [{ path: x.sarif, format: sarif }]`
+//
+// Turns a structured review result (a step's JSON output) into a SARIF 2.1.0
+// log that code-scanning tools and the SARIF Viewer extension understand.
+// The findings list is the JSON value itself when it is an array, otherwise
+// its `issues`, `findings`, `results`, `comments` or `problems` array.
+// Each finding is read leniently:
+//   file | path | location.file      → artifactLocation.uri
+//   line | start_line | location.line → region.startLine
+//   message | description | title    → message.text
+//   severity | level                  → error / warning / note
+//   rule | rule_id | ruleId | checker | category → ruleId
+// Pure (no vscode import).
+// ---------------------------------------------------------------------------
+
+const FINDING_LISTS = ['issues', 'findings', 'results', 'comments', 'problems'];
+
+const ERROR_SEVERITIES   = ['error', 'critical', 'blocker', 'high', 'major'];
+const WARNING_SEVERITIES = ['warning', 'warn', 'medium', 'minor'];
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: { driver: { name: string; rules: { id: string }[] } };
+    automationDetails: { id: string };
+    results: SarifResult[];
+  }[];
+}
+
+interface SarifResult {
+  ruleId: string;
+  level: 'error' | 'warning' | 'note';
+  message: { text: string };
+  locations?: {
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region?: { startLine: number };
+    };
+  }[];
+}
+
+/**
+ * Builds a SARIF log from a step's parsed JSON output. `automationId`
+ * identifies the producer, e.g. 'review-code-change/review'.
+ * Throws when the value holds no findings list.
+ */
+export function toSarif(value: unknown, automationId: string): SarifLog {
+  const findings = findingsOf(value);
+  if (!findings) {
+    throw new Error(`no findings list in the JSON output — expected an array or one of ${FINDING_LISTS.join(', ')}`);
+  }
+
+  const results = findings.map(toResult);
+  const rules = [...new Set(results.map(r => r.ruleId))].map(id => ({ id }));
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: 'Silver Engineer', rules } },
+      automationDetails: { id: automationId },
+      results,
+    }],
+  };
+}
+
+// ── Private helpers ─────────────────────────────────────────────────────────
+
+function findingsOf(value: unknown): unknown[] | undefined {
+  if (Array.isArray(value)) return value;
+  if (!value || typeof value !== 'object') return undefined;
+  const obj = value as Record<string, unknown>;
+  const key = FINDING_LISTS.find(k => Array.isArray(obj[k]));
+  return key ? obj[key] as unknown[] : undefined;
+}
+
+function toResult(finding: unknown): SarifResult {
+  if (!finding || typeof finding !== 'object') {
+    return { ruleId: 'finding', level: 'warning', message: { text: String(finding) } };
+  }
+  const f = finding as Record<string, unknown>;
+  const location = (f.location && typeof f.location === 'object' ? f.location : {}) as Record<string, unknown>;
+
+  const file = firstString(f.file, f.path, location.file, location.path);
+  const line = Number(f.line ?? f.start_line ?? location.line);
+  const text = firstString(f.message, f.description, f.title, f.summary) ?? JSON.stringify(finding);
+  const severity = (firstString(f.severity, f.level) ?? '').toLowerCase();
+
+  const result: SarifResult = {
+    ruleId: firstString(f.rule, f.rule_id, f.ruleId, f.checker, f.category) ?? 'finding',
+    level: ERROR_SEVERITIES.includes(severity) ? 'error' : WARNING_SEVERITIES.includes(severity) ? 'warning' : 'note',
+    message: { text },
+  };
+  if (file) {
+    result.locations = [{
+      physicalLocation: {
+        artifactLocation: { uri: file.replace(/\\/g, '/') },
+        ...(Number.isInteger(line) && line > 0 ? { region: { startLine: line } } : {}),
+      },
+    }];
+  }
+  return result;
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  const found = values.find(v => typeof v === 'string' && v.trim() !== '');
+  return found as string | undefined;
+}
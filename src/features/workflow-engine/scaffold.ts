@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { parseAndValidate } from './validator';
+import { WORKFLOW_TEMPLATES, renderTemplate, targetPath, type TemplateParameter, type WorkflowTemplate } from './templates';
+
+// ---------------------------------------------------------------------------
+// "Silver Engineer: New Workflow from Template"
+//
+// Picks a template, asks for its parameters and writes the workflow plus its
+// prompt files into the workspace. An existing workflow file is only
+// replaced after a modal confirmation; prompt files that already exist are
+// kept, since other workflows may share them.
+// ---------------------------------------------------------------------------
+
+export async function newWorkflowFromTemplate(extensionUri: vscode.Uri): Promise<void> {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    vscode.window.showWarningMessage('Silver Engineer: Open a folder to add a workflow.');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    WORKFLOW_TEMPLATES.map(t => ({ label: t.label, description: t.id, detail: t.description, template: t })),
+    { title: 'New Workflow from Template', placeHolder: 'Pick a template', matchOnDetail: true },
+  );
+  if (!picked) return;
+  const template = picked.template;
+  const workflowIndex = template.files.findIndex(f => f.source === 'workflow.yml');
+  if (workflowIndex < 0) throw new Error(`Silver Engineer: template "${template.id}" has no workflow.yml`);
+
+  const values: Record<string, string> = {};
+  for (const param of template.parameters) {
+    const value = await askParameter(template, param);
+    if (value === undefined) return;
+    values[param.name] = value;
+  }
+
+  const sourceRoot = vscode.Uri.joinPath(extensionUri, 'assets', 'workflow-templates', template.id);
+  const files = await Promise.all(template.files.map(async file => {
+    const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(sourceRoot, file.source)));
+    return {
+      uri: vscode.Uri.joinPath(folder.uri, targetPath(file, values)),
+      text: renderTemplate(file.source, text, values),
+    };
+  }));
+
+  const workflow = files[workflowIndex];
+  if (await exists(workflow.uri)) {
+    const answer = await vscode.window.showWarningMessage(
+      `${vscode.workspace.asRelativePath(workflow.uri)} already exists. Replace it?`,
+      { modal: true },
+      'Replace',
+    );
+    if (answer !== 'Replace') return;
+  }
+
+  const kept: string[] = [];
+  for (const file of files) {
+    if (file !== workflow && await exists(file.uri)) {
+      kept.push(vscode.workspace.asRelativePath(file.uri));
+      continue;
+    }
+    await vscode.workspace.fs.writeFile(file.uri, new TextEncoder().encode(file.text));
+  }
+
+  await vscode.window.showTextDocument(workflow.uri);
+
+  const errors = parseAndValidate(workflow.text).problems.filter(p => p.severity === 'error');
+  if (errors.length > 0) {
+    vscode.window.showWarningMessage(
+      `Silver Engineer: Workflow "${values.name}" was created with ${errors.length} error(s) — see the Problems panel.`,
+    );
+    return;
+  }
+  vscode.window.showInformationMessage(
+    `Silver Engineer: Workflow "${values.name}" created — run it with @silver /run ${values.name}.` +
+    (kept.length ? ` Kept existing ${kept.join(', ')}.` : ''),
+  );
+}
+
+// ── Private helpers ─────────────────────────────────────────────────────────
+
+function askParameter(template: WorkflowTemplate, param: TemplateParameter): Thenable<string | undefined> {
+  const title = `${template.label}: ${param.name}`;
+  if (param.choices) {
+    return vscode.window.showQuickPick(
+      [param.default, ...param.choices.filter(c => c !== param.default)],
+      { title, placeHolder: param.prompt, ignoreFocusOut: true },
+    );
+  }
+  const pattern = param.pattern ? new RegExp(param.pattern) : undefined;
+  return vscode.window.showInputBox({
+    title,
+    prompt: param.prompt,
+    value: param.default,
+    ignoreFocusOut: true,
+    validateInput: text => {
+      if (!text.trim()) return 'A value is required';
+      return pattern && !pattern.test(text) ? `Must match ${param.pattern}` : undefined;
+    },
+  });
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,131 @@
+import { spawn } from 'child_process';
+import type { CancellationSignal } from './host';
+
+// ---------------------------------------------------------------------------
+// Shell runner for `type: shell` steps
+//
+// Spawns the command through the platform shell without blocking the
+// extension host, forwards stdout/stderr chunks as they arrive, and kills the
+// whole process tree on cancellation or timeout.
+// ---------------------------------------------------------------------------
+
+export interface ShellRunOptions {
+  cwd?: string;
+  /** Extra variables merged over process.env */
+  env?: Record<string, string>;
+  /** Kill the command after this many milliseconds (0 / undefined = no limit) */
+  timeoutMs?: number;
+  token?: CancellationSignal;
+  /** Called with each decoded output chunk, in arrival order */
+  onOutput?: (chunk: string, source: 'stdout' | 'stderr') => void;
+}
+
+export interface ShellRunResult {
+  /** Process exit code; null if it was killed by a signal */
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  cancelled: boolean;
+}
+
+/** Captured stdout / stderr are capped so a chatty build cannot exhaust memory */
+const MAX_CAPTURE_CHARS = 4 * 1024 * 1024;
+/** Grace period between SIGTERM and SIGKILL */
+const KILL_GRACE_MS = 3000;
+
+export function runShellCommand(command: string, options: ShellRunOptions = {}): Promise<ShellRunResult> {
+  return new Promise(resolve => {
+    const isWindows = process.platform === 'win32';
+    const child = spawn(command, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      shell: true,
+      // No stdin: a command that reads it (`cat`, a prompt) must see EOF, not hang
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Own process group on POSIX so the shell's children die with it
+      detached: !isWindows,
+      windowsHide: true,
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let cancelled = false;
+    let settled = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const kill = (): void => {
+      if (child.exitCode !== null || child.pid === undefined) return;
+      killTree(child.pid, 'SIGTERM');
+      killTimer = setTimeout(() => killTree(child.pid!, 'SIGKILL'), KILL_GRACE_MS);
+    };
+
+    const timeoutTimer = options.timeoutMs
+      ? setTimeout(() => { timedOut = true; kill(); }, options.timeoutMs)
+      : undefined;
+    const cancelListener = options.token?.onCancellationRequested(() => { cancelled = true; kill(); });
+
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      if (stdout.length < MAX_CAPTURE_CHARS) stdout += chunk;
+      options.onOutput?.(chunk, 'stdout');
+    });
+    child.stderr.on('data', (chunk: string) => {
+      if (stderr.length < MAX_CAPTURE_CHARS) stderr += chunk;
+      options.onOutput?.(chunk, 'stderr');
+    });
+
+    const finish = (exitCode: number | null, extraStderr = ''): void => {
+      if (settled) return;
+      settled = true;
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      if (killTimer) clearTimeout(killTimer);
+      cancelListener?.dispose();
+      resolve({ exitCode, stdout, stderr: stderr + extraStderr, timedOut, cancelled });
+    };
+
+    child.on('error', err => finish(null, err.message));
+    child.on('close', code => finish(code));
+
+    if (options.token?.isCancellationRequested) { cancelled = true; kill(); }
+  });
+}
+
+/**
+ * Parses a step `timeout:` — a number of seconds, or a string such as
+ * '90', '90s', '5m', '1h'. Returns milliseconds, or undefined if malformed.
+ */
+export function parseTimeout(value: number | string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'number') return value > 0 ? value * 1000 : undefined;
+  const m = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/);
+  if (!m) return undefined;
+  const n = parseFloat(m[1]);
+  const unit = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 }[m[2] ?? 's'] ?? 1000;
+  return n > 0 ? n * unit : undefined;
+}
+
+/** 300000 → '5m', 1500 → '1.5s' — the `timeout:` syntax parseTimeout reads */
+export function formatDuration(ms: number): string {
+  if (ms >= 3_600_000 && ms % 3_600_000 === 0) return `${ms / 3_600_000}h`;
+  if (ms >= 60_000 && ms % 60_000 === 0) return `${ms / 60_000}m`;
+  if (ms >= 1000) return `${+(ms / 1000).toFixed(3)}s`;
+  return `${ms}ms`;
+}
+
+// ---------------------------------------------------------------------------
+
+function killTree(pid: number, signal: NodeJS.Signals): void {
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true });
+    } else {
+      // Negative pid → the whole process group started by `detached: true`
+      process.kill(-pid, signal);
+    }
+  } catch {
+    // Already exited
+  }
+}
@@ -0,0 +1,154 @@
+// ---------------------------------------------------------------------------
+// Workflow templates — manifest and rendering
+//
+// Starter workflows shipped under assets/workflow-templates/<id>/ and
+// scaffolded into a workspace by "Silver Engineer: New Workflow from
+// Template". Each template is a workflow.yml plus the prompt files it calls.
+//
+// Template files hold [[parameter]] placeholders, filled in once at scaffold
+// time — unlike {{variables}}, which the engine resolves on every run.
+// In .yml files a placeholder must stand for a whole scalar and is written
+// as a quoted YAML string; in any other file it is replaced verbatim.
+// ---------------------------------------------------------------------------
+
+export interface TemplateParameter {
+  name: string;
+  prompt: string;
+  default: string;
+  /** Regex the answer must match */
+  pattern?: string;
+  /** Offer a quick pick instead of free text */
+  choices?: string[];
+}
+
+export interface TemplateFile {
+  /** Path inside assets/workflow-templates/<id>/ */
+  source: string;
+  /** Workspace-relative target; may contain [[parameter]] placeholders */
+  target: string;
+}
+
+export interface WorkflowTemplate {
+  id: string;
+  label: string;
+  description: string;
+  parameters: TemplateParameter[];
+  files: TemplateFile[];
+}
+
+const WORKFLOW_NAME: TemplateParameter = {
+  name: 'name',
+  prompt: 'Workflow name (file name under .github/workflows/silver/)',
+  default: '',
+  pattern: '^[a-z0-9][a-z0-9-]*$',
+};
+
+const WORKFLOW_FILE: TemplateFile = { source: 'workflow.yml', target: '.github/workflows/silver/[[name]].yml' };
+
+function promptFile(name: string): TemplateFile {
+  return { source: `prompts/${name}`, target: `.github/prompts/${name}` };
+}
+
+export const WORKFLOW_TEMPLATES: readonly WorkflowTemplate[] = [
+  {
+    id: 'push-code-change',
+    label: 'Push code change',
+    description: 'Commit message in the repo\'s format from the staged diff, then push for review',
+    parameters: [
+      { ...WORKFLOW_NAME, default: 'push-code-change' },
+      {
+        name: 'commit_format',
+        prompt: 'Commit message format — "auto" infers it from the last commits',
+        default: 'auto',
+      },
+      {
+        name: 'ticket_pattern',
+        prompt: 'Regex a ticket id must match',
+        default: '^[A-Z][A-Z0-9]+-\\d+$',
+      },
+    ],
+    files: [
+      WORKFLOW_FILE,
+      promptFile('detect-commit-format.prompt.md'),
+      promptFile('create-commit-message.prompt.md'),
+    ],
+  },
+  {
+    id: 'review-code-change',
+    label: 'Review code change',
+    description: 'AI review of local changes, a commit, a diff file or a GitHub / GitLab / Gerrit change',
+    parameters: [
+      { ...WORKFLOW_NAME, default: 'review-code-change' },
+      {
+        name: 'diff_source',
+        prompt: 'Local changes to review when no target is given',
+        default: 'staged',
+        choices: ['staged', 'unstaged', 'all'],
+      },
+      {
+        name: 'max_diff_lines',
+        prompt: 'Changed lines above which the review asks for confirmation',
+        default: '3000',
+        pattern: '^\\d+$',
+      },
+      {
+        name: 'agent',
+        prompt: 'Reviewer agent — "auto" picks one from the change type',
+        default: 'auto',
+        pattern: '^[a-z0-9-]+$',
+      },
+    ],
+    files: [
+      WORKFLOW_FILE,
+      promptFile('classify-code-change.prompt.md'),
+      promptFile('review-code-change.prompt.md'),
+    ],
+  },
+  {
+    id: 'fix-coverity-defect',
+    label: 'Fix Coverity defect',
+    description: 'Pick an open Coverity defect, generate a patch, apply it and rebuild',
+    parameters: [
+      { ...WORKFLOW_NAME, default: 'fix-coverity-defect' },
+      { name: 'build_command', prompt: 'Build command run after the fix', default: 'cmake --build build' },
+    ],
+    files: [
+      WORKFLOW_FILE,
+      promptFile('list-coverity-defects.prompt.md'),
+      promptFile('fix-coverity-defect.prompt.md'),
+    ],
+  },
+  {
+    id: 'generate-unit-tests',
+    label: 'Generate unit tests',
+    description: 'Write unit tests for a source file in the style of the existing ones and run them',
+    parameters: [
+      { ...WORKFLOW_NAME, default: 'generate-unit-tests' },
+      { name: 'test_framework', prompt: 'Test framework', default: 'jest' },
+      { name: 'test_dir', prompt: 'Directory holding the tests', default: 'test' },
+      { name: 'test_command', prompt: 'Command that runs the tests', default: 'npm test' },
+    ],
+    files: [
+      WORKFLOW_FILE,
+      promptFile('generate-unit-tests.prompt.md'),
+    ],
+  },
+];
+
+/**
+ * Fills [[parameter]] placeholders in a template file. Placeholders without
+ * a value are left as they are.
+ */
+export function renderTemplate(fileName: string, text: string, values: Record<string, string>): string {
+  const yamlFile = /\.ya?ml$/i.test(fileName);
+  return text.replace(/\[\[(\w+)\]\]/g, (match, name: string) => {
+    const value = values[name];
+    if (value === undefined) return match;
+    return yamlFile ? JSON.stringify(value) : value;
+  });
+}
+
+/** Workspace-relative path a template file is written to */
+export function targetPath(file: TemplateFile, values: Record<string, string>): string {
+  return renderTemplate('', file.target, values);
+}
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import type { SilverServices } from '../../types';
+import { runStatus } from './history';
+import { cronMatches, parseCron, type CronSchedule } from './cron';
+import type { WorkflowDefinition } from './types';
+
+// ---------------------------------------------------------------------------
+// Workflow triggers
+//
+// Starts workflows in the background when their `triggers:` fire:
+//   on_save      → vscode.workspace.onDidSaveTextDocument + glob match
+//   on_commit    → .git/HEAD / refs watcher; HEAD moved to a child of the old HEAD
+//   on_checkout  → same watcher; the current branch name changed
+//   schedule     → cron expression checked every 30 s
+//
+// Each workflow runs at most once at a time; a trigger firing while it is
+// still running is logged and dropped. Output goes to the "Silver Engineer
+// Workflows" channel, the run is saved to history, and a notification
+// reports the outcome. Triggered runs leave chat runs' resume checkpoints alone.
+// ---------------------------------------------------------------------------
+
+const WORKFLOW_GLOB = '.github/workflows/silver/*.{yml,yaml}';
+const SCHEDULE_INTERVAL_MS = 30_000;
+const GIT_DEBOUNCE_MS = 750;
+
+interface TriggeredWorkflow {
+  def: WorkflowDefinition;
+  schedule?: CronSchedule;
+}
+
+export class WorkflowTriggerManager implements vscode.Disposable {
+  private readonly output = vscode.window.createOutputChannel('Silver Engineer Workflows');
+  private readonly disposables: vscode.Disposable[] = [this.output];
+  private readonly running = new Map<string, vscode.CancellationTokenSource>();
+  private workflows: TriggeredWorkflow[] = [];
+  private git: { branch?: string; head?: string } = {};
+  private gitTimer: NodeJS.Timeout | undefined;
+  private scheduleTimer: NodeJS.Timeout | undefined;
+  private lastScheduleMinute = '';
+
+  constructor(private readonly svc: SilverServices) {}
+
+  async start(): Promise<void> {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) return;
+
+    this.reload();
+    const wfWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, WORKFLOW_GLOB));
+    wfWatcher.onDidCreate(() => this.reload());
+    wfWatcher.onDidChange(() => this.reload());
+    wfWatcher.onDidDelete(() => this.reload());
+    this.disposables.push(
+      wfWatcher,
+      vscode.workspace.onDidSaveTextDocument(doc => this.onSave(doc)),
+    );
+
+    // Git: watch HEAD, branch refs and packed-refs inside the real git dir
+    const gitDir = await git(folder.uri.fsPath, 'rev-parse', '--absolute-git-dir');
+    if (gitDir) {
+      this.git = await this.readGitState(folder.uri.fsPath);
+      const gitWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(gitDir), '{HEAD,packed-refs,refs/heads/**}'),
+      );
+      const onGitChange = (): void => {
+        if (this.gitTimer) clearTimeout(this.gitTimer);
+        this.gitTimer = setTimeout(() => void this.onGitChange(folder.uri.fsPath), GIT_DEBOUNCE_MS);
+      };
+      gitWatcher.onDidChange(onGitChange);
+      gitWatcher.onDidCreate(onGitChange);
+      this.disposables.push(gitWatcher);
+    }
+
+    this.scheduleTimer = setInterval(() => this.onScheduleTick(new Date()), SCHEDULE_INTERVAL_MS);
+  }
+
+  /** Cancels every background run that is still going. */
+  stopAll(): number {
+    const count = this.running.size;
+    for (const cts of this.running.values()) cts.cancel();
+    return count;
+  }
+
+  dispose(): void {
+    this.stopAll();
+    if (this.gitTimer) clearTimeout(this.gitTimer);
+    if (this.scheduleTimer) clearInterval(this.scheduleTimer);
+    for (const d of this.disposables) d.dispose();
+    this.disposables.length = 0;
+  }
+
+  // ── Trigger sources ───────────────────────────────────────────────────────
+
+  private onSave(doc: vscode.TextDocument): void {
+    const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+    if (!folder) return;
+    const rel = path.relative(folder.uri.fsPath, doc.uri.fsPath).split(path.sep).join('/');
+
+    for (const { def } of this.workflows) {
+      const globs = def.triggers?.on_save;
+      if (!globs) continue;
+      const list = Array.isArray(globs) ? globs : [globs];
+      if (list.some(g => globToRegExp(g).test(rel))) {
+        void this.fire(def, `save ${rel}`);
+      }
+    }
+  }
+
+  private async onGitChange(cwd: string): Promise<void> {
+    const before = this.git;
+    const after = await this.readGitState(cwd);
+    this.git = after;
+    if (!after.head || (after.branch === before.branch && after.head === before.head)) return;
+
+    if (after.branch !== before.branch) {
+      for (const { def } of this.workflows) {
+        const on = def.triggers?.on_checkout;
+        if (on === true || (typeof on === 'string' && after.branch && globToRegExp(on).test(after.branch))) {
+          void this.fire(def, `checkout ${after.branch ?? after.head.slice(0, 8)}`);
+        }
+      }
+      return;
+    }
+
+    // Same branch, new HEAD: only a commit on top of the old HEAD counts —
+    // resets, rebases and amends move HEAD too but are not new commits
+    const parent = await git(cwd, 'rev-parse', '--verify', '--quiet', `${after.head}^`);
+    if (!parent || parent !== before.head) return;
+    for (const { def } of this.workflows) {
+      if (def.triggers?.on_commit) void this.fire(def, `commit ${after.head.slice(0, 8)}`);
+    }
+  }
+
+  private onScheduleTick(now: Date): void {
+    // The timer fires twice a minute — run each scheduled minute once
+    const minute = `${now.toDateString()} ${now.getHours()}:${now.getMinutes()}`;
+    if (minute === this.lastScheduleMinute) return;
+    this.lastScheduleMinute = minute;
+
+    for (const { def, schedule } of this.workflows) {
+      if (schedule && cronMatches(schedule, now)) void this.fire(def, `schedule ${def.triggers?.schedule}`);
+    }
+  }
+
+  // ── Running ───────────────────────────────────────────────────────────────
+
+  private async fire(def: WorkflowDefinition, trigger: string): Promise<void> {
+    const config = vscode.workspace.getConfiguration('silverEngineer');
+    if (!config.get<boolean>('enableWorkflowTriggers', true)) return;
+
+    const stamp = new Date().toLocaleTimeString();
+    if (this.running.has(def.name)) {
+      this.output.appendLine(`[${stamp}] ⏭️ ${def.name} — ${trigger} ignored, previous run still in progress`);
+      return;
+    }
+
+    const cts = new vscode.CancellationTokenSource();
+    this.running.set(def.name, cts);
+    this.output.appendLine(`\n[${stamp}] ▶️ ${def.name} — triggered by ${trigger}`);
+
+    // The engine writes markdown; the output channel shows it as plain text
+    const stream = { markdown: (v: string | vscode.MarkdownString) => this.output.append(typeof v === 'string' ? v : v.value) };
+
+    try {
+      const result = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: `Silver: ${def.name}` },
+        () => this.svc.workflows.run(def, stream, cts.token, { background: { trigger } }),
+      );
+      const record = await this.svc.runs.save(result);
+      const status = runStatus(result);
+      this.output.appendLine(`\n[${new Date().toLocaleTimeString()}] ${def.name} ${status} — run ${record.id}`);
+
+      const notify = result.passed ? vscode.window.showInformationMessage : vscode.window.showWarningMessage;
+      const pick = await notify(`Silver Engineer: workflow "${def.name}" ${status} (${trigger})`, 'Show Output', 'Open Run');
+      if (pick === 'Show Output') {
+        this.output.show(true);
+      } else if (pick === 'Open Run') {
+        await vscode.commands.executeCommand('workbench.action.chat.open', { query: `@silver /runs ${record.id}` });
+      }
+    } catch (err) {
+      this.output.appendLine(`[SilverEngineer] ${def.name} crashed: ${err instanceof Error ? err.message : String(err)}`);
+      console.error('[SilverEngineer] Triggered workflow error:', err);
+    } finally {
+      this.running.delete(def.name);
+      cts.dispose();
+    }
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  /** Re-reads the workflows that declare triggers (invalid ones are ignored). */
+  private reload(): void {
+    this.workflows = this.svc.workflows.listWorkflows()
+      .filter(w => !w.problems.some(p => p.severity === 'error'))
+      .map(w => this.svc.workflows.loadWorkflow(w.name))
+      .filter((def): def is WorkflowDefinition => !!def?.triggers)
+      .map(def => ({ def, schedule: def.triggers?.schedule ? parseCron(def.triggers.schedule) : undefined }));
+  }
+
+  private async readGitState(cwd: string): Promise<{ branch?: string; head?: string }> {
+    const [branch, head] = await Promise.all([
+      git(cwd, 'symbolic-ref', '--quiet', '--short', 'HEAD'),
+      git(cwd, 'rev-parse', '--verify', '--quiet', 'HEAD'),
+    ]);
+    return { branch, head };
+  }
+}
+
+// ---------------------------------------------------------------------------
+
+/** Runs a git command; resolves to trimmed stdout, or undefined on failure. */
+function git(cwd: string, ...args: string[]): Promise<string | undefined> {
+  return new Promise(resolve => {
+    execFile('git', args, { cwd, encoding: 'utf8' }, (err, stdout) => {
+      resolve(err ? undefined : stdout.trim() || undefined);
+    });
+  });
+}
+
+/**
+ * Converts a glob to an anchored RegExp:
+ *   **  → any path (including '/')      *  → anything except '/'
+ *   ?   → one character except '/'      {a,b} → either alternative
+ */
+function globToRegExp(glob: string): RegExp {
+  let re = '';
+  let inBraces = false;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      // '**/' also matches zero directories
+      if (glob[i + 2] === '/') { re += '(?:.*/)?'; i += 2; } else { re += '.*'; i++; }
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '{') {
+      re += '(?:';
+      inBraces = true;
+    } else if (c === '}' && inBraces) {
+      re += ')';
+      inBraces = false;
+    } else if (c === ',' && inBraces) {
+      re += '|';
+    } else {
+      re += c.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
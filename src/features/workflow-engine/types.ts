@@ -1,3 +1,5 @@
+import type { CancellationSignal } from './host';
+
 // ---------------------------------------------------------------------------
 // Workflow Engine — type definitions
 // ---------------------------------------------------------------------------
@@ -8,17 +10,30 @@
 // Step types
 //   agent  → loads .github/agents/<name>.agent.md, calls LLM with diff/context
 //   prompt → loads .github/prompts/<file>, calls LLM, optionally captures output
-//   shell  → runs a shell command, captures stdout
-//   input  → shows VS Code input box, captures user's answer into a variable
+//   shell  → runs a shell command asynchronously, streams and captures stdout
+//   input  → asks the user (input box, quick pick or yes/no), captures the answer
+//   parallel → runs the child steps listed under `steps:` concurrently
+//   foreach  → runs the `steps:` body once per item of a list variable
+//   tool     → invokes an LM / MCP tool by name or IntentKey, captures its text
+//   workflow → runs another workflow from .github/workflows/silver/ by name,
+//              passing `with:` variables in and copying its `outputs:` back
 //
 // Failure strategies
 //   abort         → stop the entire workflow, report failure
 //   continue      → log warning, proceed to next step (default for non-critical)
 //   retry(max: N) → retry up to N times before falling back to on_fail_fallback
+//   on_fail_fallback: '<step id>' runs that step once the failure is final;
+//   if it passes, the workflow carries on as if the step had been handled.
+//   Workflow-level `finally:` steps always run last — after success, abort
+//   or cancellation — with {{workflow_status}} set to
+//   passed | failed | aborted | cancelled.
 //
 // Variable system
 //   step.output: 'var_name' captures the step's LLM/shell/input output into a variable.
 //   {{var_name}} in any field is replaced with the captured value at runtime.
+//   JSON outputs (output_format: json) can be read by path: {{review.issues[0].file}}.
+//   Inside a foreach body, {{item}} and {{index}} hold the current element.
+//   step.artifacts writes the step's output to workspace files (text or SARIF).
 //   Built-in inputs: git_diff_staged, git_diff_last_commit, commit_message_last
 //   Built-in variables (set at workflow start):
 //     git_remote_url, git_branch, git_platform, git_push_cmd,
@@ -30,7 +45,7 @@ export interface WorkflowStep {
   id: string;
 
   /** Step type */
-  type: 'agent' | 'prompt' | 'shell' | 'input';
+  type: 'agent' | 'prompt' | 'shell' | 'input' | 'parallel' | 'foreach' | 'tool' | 'workflow';
 
   /**
    * [agent] Name of agent — reads .github/agents/<agent>.agent.md
@@ -44,6 +59,45 @@ export interface WorkflowStep {
   /** [shell] Shell command to run. Supports {{variable}} interpolation */
   command?: string;
 
+  /**
+   * [shell] Kill the command after this long. A number of seconds, or a
+   * string with a unit: '90s', '5m', '1h'. No limit by default.
+   */
+  timeout?: number | string;
+
+  /** [shell] Extra environment variables. Values support {{variable}} */
+  env?: Record<string, string>;
+
+  /**
+   * [shell] Exit code(s) that count as success. Default: 0.
+   * e.g. 1 for `grep` where "no match" is the outcome you want.
+   */
+  expect_exit_code?: number | number[];
+
+  /**
+   * [tool] Tool to invoke. Either:
+   *   - an IntentKey (e.g. 'JIRA_GET_ISSUE') → resolved via ToolDiscovery
+   *   - a Silver tool (e.g. 'silver_update_jira') → HITL confirmation first
+   *   - any other registered LM / MCP tool name → invoked directly
+   */
+  tool?: string;
+
+  /**
+   * [tool] Tool input. String values (at any depth) support {{variable}}
+   * [workflow] Variables set in the called workflow before its first step;
+   *            non-string values are passed as JSON.
+   */
+  with?: Record<string, unknown>;
+
+  /**
+   * [workflow] Name of the workflow to call (its `name:` or file name).
+   * The called workflow starts with the caller's built-in git variables plus
+   * `with:`; when it ends, each variable listed in its `outputs:` is copied
+   * into the caller, and this step's `output` receives them as a JSON object.
+   * A workflow that (indirectly) calls itself fails with a recursion error.
+   */
+  workflow?: string;
+
   /** [input] Question shown to the user in the VS Code input box */
   question?: string;
 
@@ -53,6 +107,44 @@ export interface WorkflowStep {
   /** [input] If true, leaving the input empty still passes the step (output = '') */
   optional?: boolean;
 
+  /**
+   * [input] 'text' (default) → input box, or a quick pick when `choices` is set
+   *         'confirm'        → Yes / No pick; output is 'yes', or '' for No so
+   *                            that `vars.<output>` works directly in conditions
+   */
+  kind?: 'text' | 'confirm';
+
+  /**
+   * [input] Offer a quick pick instead of free text. Either a YAML list, or a
+   * string resolving to one — usually '{{remote_branches}}' (JSON array or
+   * one choice per line, like foreach).
+   */
+  choices?: string[] | string;
+
+  /** [input] With `choices`: allow several picks; output has one per line */
+  multi?: boolean;
+
+  /** [input] Regex a typed answer must match, e.g. '^[A-Z]+-\d+$' for a Jira key */
+  pattern?: string;
+
+  /**
+   * [parallel] Child steps started together; the group waits for all of them.
+   * Each child keeps its own condition / on_fail. The group fails if any child
+   * fails with an aborting strategy (abort or exhausted retry).
+   *
+   * [foreach] Body run sequentially once per item.
+   */
+  steps?: WorkflowStep[];
+
+  /**
+   * [foreach] The list to iterate, usually a variable reference like
+   * '{{changed_files}}'. A JSON array is iterated element by element;
+   * any other text is split into non-empty lines.
+   * The foreach step's `output` receives a JSON array holding the output of
+   * each iteration's last executed body step.
+   */
+  foreach?: string;
+
   /**
    * Input to pass to LLM steps.
    * Built-ins: 'git_diff_staged' | 'git_diff_last_commit' | 'commit_message_last'
@@ -63,6 +155,46 @@ export interface WorkflowStep {
   /** Capture the step's primary output into this variable name */
   output?: string;
 
+  /**
+   * [agent, prompt] 'json' → the model is asked for a single JSON value,
+   * which is parsed (and checked against `schema` if given) before the step
+   * passes. The captured variable holds the JSON text, so later steps can
+   * read nested values: {{review.issues[0].file}}, vars.review.severity_max.
+   */
+  output_format?: 'text' | 'json';
+
+  /**
+   * [agent, prompt] JSON Schema for `output_format: json` — inline, or a path
+   * to a .json file relative to the workspace root. Supported keywords: type,
+   * properties, required, additionalProperties, items, enum, minimum, maximum,
+   * minItems, maxItems, minLength, maxLength, pattern.
+   */
+  schema?: Record<string, unknown> | string;
+
+  /** [agent, prompt] How often to re-ask when the JSON is invalid. Default: 2 */
+  json_retries?: number;
+
+  /**
+   * [agent, prompt] Model for this step, e.g. 'gpt-4o-mini' for a commit
+   * message or 'claude-sonnet-4-5' for a review. Wins over the agent file's
+   * `model:` and the silverEngineer.workflowDefaultModel setting.
+   * Supports {{variable}} interpolation.
+   */
+  model?: string;
+
+  /** [agent, prompt] Sampling temperature, 0 (deterministic) to 2 */
+  temperature?: number;
+
+  /** [agent, prompt] Upper bound on the length of the reply, in tokens */
+  max_tokens?: number;
+
+  /**
+   * [agent, prompt] System prompt sent ahead of everything else. Replaces the
+   * agent step's built-in reviewer preamble; prompt steps have none unless
+   * this is set. Supports {{variable}} interpolation.
+   */
+  system_prompt?: string;
+
   /**
    * Required substring in the output for the step to be considered PASSED.
    * Common value: '[PASS]'
@@ -79,19 +211,55 @@ export interface WorkflowStep {
   on_fail?: string;
 
   /**
-   * Optional JS-like boolean expression evaluated before running the step.
-   * Supported:
-   *   'steps.<id>.passed'  → true/false based on step result
-   *   'vars.<name>'        → true if the variable is non-empty, false otherwise
-   *   '&&', '||', '!', parentheses
-   * Example: 'steps.review-style.passed && vars.jira_ticket'
+   * Id of a step to run when this step has failed for good (abort, or
+   * retries exhausted). Looked up in the workflow's `fallbacks:` first, then
+   * in `steps:`. If the fallback passes, this step is marked recoveredBy it
+   * and the workflow continues.
+   */
+  on_fail_fallback?: string;
+
+  /**
+   * Optional expression evaluated before running the step; the step is
+   * skipped when it is false. See expression.ts for the full grammar:
+   *   'steps.<id>.passed' | .skipped | .output | .exit_code | .fail_reason
+   *   'vars.<name>'       → the variable (paths into JSON: vars.review.issues[0])
+   *   'env.<NAME>'        → environment variable
+   *   ==, !=, <, <=, >, >=, &&, ||, !, parentheses
+   *   contains(a, b), startsWith(a, b), endsWith(a, b), matches(a, 'regex'), length(a)
+   * Example: "steps.review-style.passed && vars.review.severity_max < 2"
+   * A condition that does not parse fails the step instead of skipping it.
    */
   condition?: string;
 
+  /**
+   * Files the step's output is written to once it has run (not when it was
+   * skipped or produced no output), linked from the run summary. Paths are
+   * workspace-relative and support {{variable}}:
+   *   artifacts:
+   *     - path: reports/review-{{git_branch}}.md
+   *     - path: reports/review.sarif
+   *       format: sarif            # needs output_format: json (see sarif.ts)
+   */
+  artifacts?: StepArtifact[];
+
   /** Human-readable description shown in the chat stream */
   description?: string;
 }
 
+export interface StepArtifact {
+  path: string;
+  /** 'text' (default) writes the output as is; 'sarif' converts JSON findings */
+  format?: 'text' | 'sarif';
+}
+
+/** A file written by a run's `artifacts:` */
+export interface WorkflowArtifact {
+  stepId: string;
+  /** Workspace-relative path */
+  path: string;
+  format: 'text' | 'sarif';
+}
+
 export interface WorkflowDefinition {
   /** The workflow name (used in @silver /run <name>) */
   name: string;
@@ -101,6 +269,61 @@ export interface WorkflowDefinition {
 
   /** Ordered list of steps */
   steps: WorkflowStep[];
+
+  /** Steps that only run when referenced by an `on_fail_fallback` */
+  fallbacks?: WorkflowStep[];
+
+  /** Cleanup steps that always run after the main steps, even on abort or cancel */
+  finally?: WorkflowStep[];
+
+  /** Variables a caller passes in through `with:` when running this as a `workflow` step */
+  inputs?: string[];
+
+  /** Events that start this workflow in the background (see WorkflowTriggers) */
+  triggers?: WorkflowTriggers;
+
+  /** Variables handed back to the caller when run as a `workflow` step */
+  outputs?: string[];
+
+  /**
+   * Run the whole workflow once per combination of these variables, e.g.
+   * one run per release branch and build target (see matrix.ts). Each
+   * combination starts from fresh variables and step results; the run ends
+   * with a pass/fail table. Matrix runs keep no resume checkpoint, and the
+   * matrix is ignored when the workflow is called from a `workflow` step.
+   */
+  matrix?: WorkflowMatrix;
+}
+
+export type MatrixScalar = string | number | boolean;
+
+/**
+ * Variable name → list of values, or a string resolving to one
+ * ('{{release_branches}}'). `exclude` drops combinations matching every
+ * variable listed in one of its entries.
+ */
+export interface WorkflowMatrix {
+  [variable: string]: MatrixScalar[] | string | Record<string, MatrixScalar>[] | undefined;
+  exclude?: Record<string, MatrixScalar>[];
+}
+
+/**
+ * Background triggers. A triggered run reports to the "Silver Engineer
+ * Workflows" output channel and ends with a notification; shell and tool
+ * steps ask for confirmation before they run, since no one is watching.
+ */
+export interface WorkflowTriggers {
+  /** Glob(s) relative to the workspace root, e.g. 'src/*.ts'; a matching save starts the workflow */
+  on_save?: string | string[];
+
+  /** A new local commit on the current branch (HEAD moved to a child of the previous HEAD) */
+  on_commit?: boolean;
+
+  /** A branch checkout. `true` for any branch, or a branch glob such as 'feature/*' */
+  on_checkout?: boolean | string;
+
+  /** Cron expression in local time, e.g. '0 9 * * 1-5' or '@hourly' (see cron.ts) */
+  schedule?: string;
 }
 
 export interface StepResult {
@@ -109,6 +332,12 @@ export interface StepResult {
   output: string;
   skipped: boolean;
   failReason?: string;
+  /** Id of the on_fail_fallback step that recovered this failed step */
+  recoveredBy?: string;
+  /** [shell] Process exit code (absent if the command never exited normally) */
+  exitCode?: number;
+  /** [agent, prompt] Model that answered */
+  model?: string;
 }
 
 export interface WorkflowRunResult {
@@ -116,4 +345,79 @@ export interface WorkflowRunResult {
   passed: boolean;
   steps: StepResult[];
   abortedAt?: string;  // step id where workflow was aborted
+  cancelled?: boolean;
+  startedAt: string;   // ISO timestamp
+  finishedAt: string;  // ISO timestamp
+  /** Variable map as it stood when the run ended (unredacted — see RunHistory) */
+  variables: Record<string, string>;
+  /** What started a background run, e.g. 'save src/app.ts' or 'schedule' */
+  trigger?: string;
+  /** Files written by steps' `artifacts:` */
+  artifacts?: WorkflowArtifact[];
+}
+
+/**
+ * Snapshot taken after every completed top-level step so an aborted or
+ * cancelled run can be resumed with `@silver /run <name> --resume`.
+ */
+export interface WorkflowCheckpoint {
+  workflowName: string;
+  /** ISO timestamp of the original run start */
+  startedAt: string;
+  savedAt: string;
+  /** Id of the top-level step the resumed run starts from */
+  resumeAt: string;
+  variables: Record<string, string>;
+  /** Results of every step completed before `resumeAt` */
+  steps: StepResult[];
+}
+
+export interface WorkflowRunOptions {
+  /** Continue a previous run from its checkpoint instead of starting fresh */
+  resume?: WorkflowCheckpoint;
+
+  /**
+   * Plan only: report what every step would do (interpolated commands, agent
+   * and prompt files, condition outcomes, undefined variables) without running
+   * any step, tool or LLM call. `passed` is false if problems were found.
+   */
+  dryRun?: boolean;
+
+  /**
+   * Run started by a trigger rather than from chat: shell and tool steps,
+   * artifact writes (and the agent step's auto-staging) need the user's
+   * confirmation first, input steps fail, and no resume checkpoint is saved
+   * or cleared.
+   */
+  background?: { trigger: string };
+
+  /** Initial variables (e.g. `silver run --var k=v`); they override built-ins */
+  variables?: Record<string, string>;
+
+  /** Step-through debugging: pause before every top-level step */
+  debug?: WorkflowDebugger;
+}
+
+/** What to do with the step the debugger paused on. */
+export type DebugAction =
+  | 'step'      // run it, pause again before the next one
+  | 'skip'      // record it as skipped without running it
+  | 'continue'  // run it and every remaining step without pausing
+  | 'stop';     // end the run as cancelled (finally steps still run)
+
+/**
+ * Receives control before each top-level step. Nested steps (parallel,
+ * foreach, sub-workflow, fallback) run as part of their parent — stepping
+ * over a parent runs all of them.
+ */
+export interface WorkflowDebugger {
+  /**
+   * `variables` is the live map: edits made before resolving are seen by the
+   * step. `stepResults` holds every step finished so far.
+   */
+  pause(
+    step: WorkflowStep,
+    context: { index: number; variables: Map<string, string>; stepResults: ReadonlyMap<string, StepResult> },
+    token: CancellationSignal,
+  ): Promise<DebugAction>;
 }
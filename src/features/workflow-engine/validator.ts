@@ -0,0 +1,506 @@
+import * as yaml from 'js-yaml';
+import type { WorkflowDefinition, WorkflowMatrix, WorkflowStep } from './types';
+import { parseTimeout } from './shell';
+import { rootVariable } from './json-output';
+import { parseCron } from './cron';
+import { expandMatrix } from './matrix';
+import { conditionReferences, parseCondition, type Expr } from './expression';
+
+// ---------------------------------------------------------------------------
+// Workflow validator
+//
+// Static checks on a parsed .github/workflows/silver/*.yml definition.
+// Pure (no vscode import) so it serves the Problems panel, /workflows, /run
+// and the dry-run planner alike.
+//
+// Errors make a workflow unrunnable; warnings are shown but do not block.
+// ---------------------------------------------------------------------------
+
+export interface WorkflowProblem {
+  severity: 'error' | 'warning';
+  message: string;
+  /** Step the problem belongs to — used to locate it in the YAML text */
+  stepId?: string;
+  /** 0-based position, when known (YAML syntax errors) */
+  line?: number;
+  column?: number;
+}
+
+const STEP_TYPES = ['agent', 'prompt', 'shell', 'input', 'parallel', 'foreach', 'tool', 'workflow'] as const;
+
+/** Field each step type cannot run without */
+const REQUIRED_FIELD: Partial<Record<WorkflowStep['type'], keyof WorkflowStep>> = {
+  agent:    'agent',
+  prompt:   'prompt',
+  shell:    'command',
+  tool:     'tool',
+  foreach:  'foreach',
+  parallel: 'steps',
+  workflow: 'workflow',
+};
+
+/**
+ * Looks up another workflow by name — lets `workflow` steps be checked
+ * against the workflow they call. Validation works without one, minus
+ * those checks.
+ */
+export type WorkflowResolver = (name: string) => WorkflowDefinition | undefined;
+
+/** Variables the engine sets before the first step (see populateGitVariables) */
+export const BUILTIN_VARIABLES = [
+  'git_remote_url', 'git_branch', 'git_platform', 'git_push_cmd',
+  'git_recent_commits', 'git_jira_ticket',
+];
+
+/** Variables only defined inside a foreach body / finally block */
+const FOREACH_VARIABLES = ['item', 'index'];
+const FINALLY_VARIABLES = ['workflow_status', 'workflow_aborted_at'];
+
+/**
+ * Parses YAML text and validates it. A syntax error yields a single
+ * positioned problem and no definition.
+ */
+export function parseAndValidate(
+  text: string,
+  resolve?: WorkflowResolver,
+): { def?: WorkflowDefinition; problems: WorkflowProblem[] } {
+  let def: unknown;
+  try {
+    def = yaml.load(text);
+  } catch (err) {
+    const mark = (err as { mark?: { line: number; column: number } }).mark;
+    const reason = (err as { reason?: string }).reason ?? String(err);
+    return {
+      problems: [{ severity: 'error', message: `YAML syntax error: ${reason}`, line: mark?.line, column: mark?.column }],
+    };
+  }
+  const problems = validateWorkflow(def, resolve);
+  return isObject(def) ? { def: def as WorkflowDefinition, problems } : { problems };
+}
+
+/**
+ * Checks a parsed workflow for:
+ *   - unknown step types and missing type-specific fields
+ *   - duplicate step ids (across steps, fallbacks and finally, nested included)
+ *   - malformed on_fail values such as 'retry(max: two)'
+ *   - conditions that do not parse, or reference step ids that do not exist
+ *   - {{variables}} / vars.X used before any step produces them
+ *   - `workflow` steps calling unknown workflows or forming a recursion cycle
+ *     (only when `resolve` is given)
+ */
+export function validateWorkflow(def: unknown, resolve?: WorkflowResolver): WorkflowProblem[] {
+  const problems: WorkflowProblem[] = [];
+
+  if (!isObject(def)) {
+    return [{ severity: 'error', message: 'Workflow file must contain a YAML mapping with a `steps:` list' }];
+  }
+  const wf = def as Partial<WorkflowDefinition>;
+  if (!Array.isArray(wf.steps)) {
+    return [{ severity: 'error', message: 'Workflow has no `steps:` list' }];
+  }
+
+  // ── Per-step structural checks + id collection ──────────────────────────
+  const ids = new Set<string>();
+  const seen = new Set<string>();
+  const walk = (steps: unknown, where: string): void => {
+    if (!Array.isArray(steps)) {
+      problems.push({ severity: 'error', message: `\`${where}\` must be a list of steps` });
+      return;
+    }
+    for (const raw of steps) {
+      if (!isObject(raw)) {
+        problems.push({ severity: 'error', message: `Entry in \`${where}\` is not a step mapping` });
+        continue;
+      }
+      const step = raw as Partial<WorkflowStep>;
+      checkStepShape(step, problems);
+      if (typeof step.id === 'string') {
+        if (seen.has(step.id)) {
+          problems.push({ severity: 'error', message: `Duplicate step id \`${step.id}\``, stepId: step.id });
+        }
+        seen.add(step.id);
+        ids.add(step.id);
+      }
+      if (step.steps !== undefined) walk(step.steps, `${step.id ?? where}.steps`);
+    }
+  };
+  walk(wf.steps, 'steps');
+  if (wf.fallbacks !== undefined) walk(wf.fallbacks, 'fallbacks');
+  if (wf.finally !== undefined) walk(wf.finally, 'finally');
+
+  // ── Cross-references: conditions, fallbacks ─────────────────────────────
+  const matrixVariables = isObject(wf.matrix) ? Object.keys(wf.matrix).filter(k => k !== 'exclude') : [];
+  for (const step of allSteps(wf as WorkflowDefinition)) {
+    if (step.condition !== undefined) {
+      const parsed = parseStepCondition(step);
+      if ('error' in parsed) {
+        problems.push({ severity: 'error', message: `Invalid condition: ${parsed.error}`, stepId: step.id });
+      } else {
+        for (const id of conditionReferences(parsed.expr).steps.filter(id => !ids.has(id))) {
+          problems.push({ severity: 'error', message: `Condition references unknown step \`${id}\``, stepId: step.id });
+        }
+      }
+    }
+    if (step.on_fail_fallback && !ids.has(step.on_fail_fallback)) {
+      problems.push({ severity: 'error', message: `on_fail_fallback references unknown step \`${step.on_fail_fallback}\``, stepId: step.id });
+    }
+    if (step.type === 'workflow' && typeof step.workflow === 'string' && resolve && !step.workflow.includes('{{')) {
+      checkWorkflowCall(step, wf as WorkflowDefinition, resolve, problems);
+    }
+    if (matrixVariables.length > 0 && Array.isArray(step.artifacts)) {
+      checkMatrixArtifacts(step, matrixVariables, problems);
+    }
+  }
+  if (wf.triggers !== undefined) checkTriggers(wf.triggers, problems);
+  if (wf.matrix !== undefined) checkMatrix(wf.matrix, problems);
+  for (const field of ['inputs', 'outputs'] as const) {
+    const list = wf[field];
+    if (list !== undefined && !(Array.isArray(list) && list.every(v => typeof v === 'string'))) {
+      problems.push({ severity: 'error', message: `\`${field}\` must be a list of variable names` });
+    }
+  }
+
+  // ── Variables used before they are produced ─────────────────────────────
+  // `known` grows as the main steps are walked; finally / fallback steps may
+  // run after any of them, so they see every output.
+  const known = new Set([...BUILTIN_VARIABLES, ...stringList(wf.inputs), ...matrixVariables]);
+  checkVariableFlow(wf.steps as WorkflowStep[], known, problems, resolve);
+  if (Array.isArray(wf.finally)) {
+    checkVariableFlow(wf.finally, new Set([...known, ...FINALLY_VARIABLES]), problems, resolve);
+  }
+  if (Array.isArray(wf.fallbacks)) {
+    checkVariableFlow(wf.fallbacks, new Set(known), problems, resolve);
+  }
+
+  return problems;
+}
+
+/**
+ * Collects the {{variable}} names a step references in its own fields
+ * (nested parallel / foreach bodies are not included).
+ */
+export function findPlaceholders(step: Partial<WorkflowStep>): string[] {
+  const fields: unknown[] = [
+    step.agent, step.prompt, step.command, step.question, step.placeholder,
+    step.input, step.description, step.foreach, step.tool, step.with, step.env,
+    step.choices, step.workflow, step.model, step.system_prompt, step.artifacts,
+  ];
+  const text = JSON.stringify(fields);
+  return [...new Set([...text.matchAll(/\{\{([^}]+)\}\}/g)].map(m => m[1].trim()))];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function checkStepShape(step: Partial<WorkflowStep>, problems: WorkflowProblem[]): void {
+  const stepId = typeof step.id === 'string' ? step.id : undefined;
+  if (!stepId) {
+    problems.push({ severity: 'error', message: `Step of type \`${step.type ?? '?'}\` has no \`id\`` });
+  }
+
+  if (!step.type || !(STEP_TYPES as readonly string[]).includes(step.type)) {
+    problems.push({
+      severity: 'error',
+      message: `Unknown step type \`${step.type ?? '(missing)'}\` — expected one of ${STEP_TYPES.join(', ')}`,
+      stepId,
+    });
+  } else {
+    const field = REQUIRED_FIELD[step.type];
+    if (field && (step[field] === undefined || step[field] === '')) {
+      problems.push({ severity: 'error', message: `\`${step.type}\` step is missing \`${field}\``, stepId });
+    }
+    if (step.type === 'foreach' && !Array.isArray(step.steps)) {
+      problems.push({ severity: 'error', message: '`foreach` step is missing its `steps` body', stepId });
+    }
+  }
+
+  if (step.timeout !== undefined && parseTimeout(step.timeout) === undefined) {
+    problems.push({ severity: 'error', message: `Malformed \`timeout: ${step.timeout}\` — use seconds or e.g. '90s', '5m'`, stepId });
+  }
+  if (step.env !== undefined && !isObject(step.env)) {
+    problems.push({ severity: 'error', message: '`env` must be a mapping of NAME: value', stepId });
+  }
+  const exitCodes = step.expect_exit_code === undefined ? [] : [step.expect_exit_code].flat();
+  if (exitCodes.some(c => !Number.isInteger(c))) {
+    problems.push({ severity: 'error', message: '`expect_exit_code` must be an integer or a list of integers', stepId });
+  }
+  if ((step.timeout !== undefined || step.env !== undefined || step.expect_exit_code !== undefined) && step.type !== 'shell') {
+    problems.push({ severity: 'warning', message: '`timeout`, `env` and `expect_exit_code` only apply to shell steps', stepId });
+  }
+
+  if (step.kind !== undefined && step.kind !== 'text' && step.kind !== 'confirm') {
+    problems.push({ severity: 'error', message: `Unknown input \`kind: ${step.kind}\` — expected text or confirm`, stepId });
+  }
+  if (step.choices !== undefined && typeof step.choices !== 'string' && !Array.isArray(step.choices)) {
+    problems.push({ severity: 'error', message: '`choices` must be a list or a string such as \'{{branches}}\'', stepId });
+  }
+  if (step.multi && step.choices === undefined) {
+    problems.push({ severity: 'warning', message: '`multi: true` has no effect without `choices`', stepId });
+  }
+  if (step.pattern !== undefined) {
+    try {
+      new RegExp(step.pattern);
+    } catch (err) {
+      problems.push({ severity: 'error', message: `Invalid \`pattern\`: ${(err as Error).message}`, stepId });
+    }
+  }
+  if ((step.kind !== undefined || step.choices !== undefined || step.pattern !== undefined) && step.type !== 'input') {
+    problems.push({ severity: 'warning', message: '`kind`, `choices` and `pattern` only apply to input steps', stepId });
+  }
+
+  if (step.output_format !== undefined && step.output_format !== 'text' && step.output_format !== 'json') {
+    problems.push({ severity: 'error', message: `Unknown \`output_format: ${step.output_format}\` — expected text or json`, stepId });
+  }
+  if (step.schema !== undefined && step.output_format !== 'json') {
+    problems.push({ severity: 'warning', message: '`schema` is ignored unless `output_format: json` is set', stepId });
+  }
+  if (step.schema !== undefined && typeof step.schema !== 'string' && !isObject(step.schema)) {
+    problems.push({ severity: 'error', message: '`schema` must be a JSON Schema mapping or a path to a .json file', stepId });
+  }
+  if (step.output_format === 'json' && step.type !== 'agent' && step.type !== 'prompt') {
+    problems.push({ severity: 'warning', message: '`output_format: json` only applies to agent and prompt steps', stepId });
+  }
+
+  if (step.temperature !== undefined && (typeof step.temperature !== 'number' || step.temperature < 0 || step.temperature > 2)) {
+    problems.push({ severity: 'error', message: '`temperature` must be a number from 0 to 2', stepId });
+  }
+  if (step.max_tokens !== undefined && (!Number.isInteger(step.max_tokens) || step.max_tokens < 1)) {
+    problems.push({ severity: 'error', message: '`max_tokens` must be a positive integer', stepId });
+  }
+  const llmOptions = [step.model, step.temperature, step.max_tokens, step.system_prompt].some(v => v !== undefined);
+  if (llmOptions && step.type !== 'agent' && step.type !== 'prompt') {
+    problems.push({
+      severity: 'warning',
+      message: '`model`, `temperature`, `max_tokens` and `system_prompt` only apply to agent and prompt steps',
+      stepId,
+    });
+  }
+
+  if (step.artifacts !== undefined) {
+    const artifacts = Array.isArray(step.artifacts) ? step.artifacts : [];
+    if (!Array.isArray(step.artifacts) || !artifacts.every(a => isObject(a) && typeof a.path === 'string' && a.path.trim())) {
+      problems.push({ severity: 'error', message: '`artifacts` must be a list of { path, format? } entries', stepId });
+    }
+    for (const a of artifacts.filter(isObject)) {
+      if (a.format !== undefined && a.format !== 'text' && a.format !== 'sarif') {
+        problems.push({ severity: 'error', message: `Unknown artifact \`format: ${a.format}\` — expected text or sarif`, stepId });
+      }
+      if (a.format === 'sarif' && step.output_format !== 'json' && step.type !== 'shell' && step.type !== 'tool') {
+        problems.push({ severity: 'warning', message: 'A `sarif` artifact needs JSON findings — set `output_format: json`', stepId });
+      }
+      if (typeof a.path === 'string' && (/^([\\/]|[A-Za-z]:)/.test(a.path) || a.path.split(/[\\/]/).includes('..'))) {
+        problems.push({ severity: 'error', message: `Artifact path \`${a.path}\` must stay inside the workspace`, stepId });
+      }
+    }
+  }
+
+  if (step.on_fail !== undefined) {
+    const v = String(step.on_fail).trim();
+    if (v.startsWith('retry')) {
+      if (!/^retry\s*\(\s*max\s*:\s*\d+\s*\)$/.test(v)) {
+        problems.push({ severity: 'error', message: `Malformed \`on_fail: ${v}\` — use \`retry(max: N)\``, stepId });
+      }
+    } else if (v !== 'abort' && v !== 'continue') {
+      problems.push({ severity: 'warning', message: `Unknown on_fail strategy \`${v}\` — treated as \`continue\``, stepId });
+    }
+  }
+}
+
+function checkVariableFlow(
+  steps: WorkflowStep[],
+  known: Set<string>,
+  problems: WorkflowProblem[],
+  resolve?: WorkflowResolver,
+): void {
+  for (const step of steps) {
+    if (!isObject(step)) continue;
+    for (const name of findPlaceholders(step)) {
+      if (!known.has(rootVariable(name))) {
+        problems.push({ severity: 'warning', message: `\`{{${name}}}\` is used before any step produces it`, stepId: step.id });
+      }
+    }
+    const parsed = step.condition !== undefined ? parseStepCondition(step) : undefined;
+    if (parsed && 'expr' in parsed) {
+      for (const name of conditionReferences(parsed.expr).vars.filter(v => !known.has(v))) {
+        problems.push({ severity: 'warning', message: `Condition uses \`vars.${name}\` before any step produces it`, stepId: step.id });
+      }
+    }
+    if (Array.isArray(step.steps) && step.type === 'parallel') {
+      // Siblings run at once: each sees only what existed before the group,
+      // and all their outputs become visible after it
+      const produced = step.steps.map(child => {
+        const own = new Set(known);
+        checkVariableFlow([child], own, problems, resolve);
+        return own;
+      });
+      for (const name of produced.flatMap(s => [...s])) known.add(name);
+    } else if (Array.isArray(step.steps)) {
+      const body = step.type === 'foreach' ? new Set([...known, ...FOREACH_VARIABLES]) : known;
+      checkVariableFlow(step.steps, body, problems, resolve);
+    }
+    if (step.type === 'workflow' && typeof step.workflow === 'string') {
+      // Outputs of the called workflow are copied into this one
+      const callee = resolve?.(step.workflow);
+      for (const name of stringList(callee?.outputs)) known.add(name);
+    }
+    if (step.output) known.add(step.output);
+  }
+}
+
+function checkMatrix(value: unknown, problems: WorkflowProblem[]): void {
+  if (!isObject(value)) {
+    problems.push({ severity: 'error', message: '`matrix` must be a mapping of variable: [values]' });
+    return;
+  }
+  const matrix = value as Record<string, unknown>;
+  const isScalar = (v: unknown): boolean => ['string', 'number', 'boolean'].includes(typeof v);
+  const axes = Object.keys(matrix).filter(k => k !== 'exclude');
+  if (axes.length === 0) {
+    problems.push({ severity: 'error', message: '`matrix` needs at least one variable' });
+  }
+  for (const name of axes) {
+    const values = matrix[name];
+    if (!/^[A-Za-z_]\w*$/.test(name)) {
+      problems.push({ severity: 'error', message: `Matrix variable \`${name}\` is not a valid variable name` });
+    } else if (BUILTIN_VARIABLES.includes(name)) {
+      problems.push({ severity: 'warning', message: `Matrix variable \`${name}\` overrides the built-in of the same name` });
+    }
+    if (typeof values === 'string') continue;
+    if (!Array.isArray(values) || values.length === 0 || !values.every(isScalar)) {
+      problems.push({ severity: 'error', message: `\`matrix.${name}\` must be a non-empty list of values, or a string such as '{{branches}}'` });
+    }
+  }
+
+  const exclude = matrix.exclude;
+  if (exclude === undefined) return;
+  if (!Array.isArray(exclude) || !exclude.every(e => isObject(e) && Object.values(e).every(isScalar))) {
+    problems.push({ severity: 'error', message: '`matrix.exclude` must be a list of variable: value mappings' });
+    return;
+  }
+  for (const key of new Set(exclude.flatMap(e => Object.keys(e as object)))) {
+    if (!axes.includes(key)) {
+      problems.push({ severity: 'warning', message: `\`matrix.exclude\` names \`${key}\`, which is not a matrix variable` });
+    }
+  }
+  const resolved = axes.every(name => Array.isArray(matrix[name]));
+  if (resolved && expandMatrix(matrix as WorkflowMatrix, () => []).length === 0) {
+    problems.push({ severity: 'error', message: '`matrix.exclude` removes every combination' });
+  }
+}
+
+/** Every combination runs the step, so a path without a matrix variable is overwritten by each */
+function checkMatrixArtifacts(step: WorkflowStep, matrixVariables: string[], problems: WorkflowProblem[]): void {
+  for (const artifact of step.artifacts ?? []) {
+    if (!isObject(artifact) || typeof artifact.path !== 'string') continue;
+    const used = [...artifact.path.matchAll(/\{\{([^}]+)\}\}/g)].map(m => rootVariable(m[1].trim()));
+    if (!used.some(name => matrixVariables.includes(name))) {
+      problems.push({
+        severity: 'error',
+        message: `Artifact \`${artifact.path}\` would be overwritten by every matrix combination — put a matrix variable in the path, e.g. {{${matrixVariables[0]}}}`,
+        stepId: step.id,
+      });
+    }
+  }
+}
+
+function checkTriggers(triggers: unknown, problems: WorkflowProblem[]): void {
+  if (!isObject(triggers)) {
+    problems.push({ severity: 'error', message: '`triggers` must be a mapping (on_save, on_commit, on_checkout, schedule)' });
+    return;
+  }
+  const t = triggers as Record<string, unknown>;
+  const known = ['on_save', 'on_commit', 'on_checkout', 'schedule'];
+  for (const key of Object.keys(t).filter(k => !known.includes(k))) {
+    problems.push({ severity: 'warning', message: `Unknown trigger \`${key}\` — expected ${known.join(', ')}` });
+  }
+  if (t.on_save !== undefined && typeof t.on_save !== 'string' && !(Array.isArray(t.on_save) && t.on_save.every(g => typeof g === 'string'))) {
+    problems.push({ severity: 'error', message: '`triggers.on_save` must be a glob or a list of globs' });
+  }
+  if (t.on_commit !== undefined && typeof t.on_commit !== 'boolean') {
+    problems.push({ severity: 'error', message: '`triggers.on_commit` must be true or false' });
+  }
+  if (t.on_checkout !== undefined && typeof t.on_checkout !== 'boolean' && typeof t.on_checkout !== 'string') {
+    problems.push({ severity: 'error', message: '`triggers.on_checkout` must be true or a branch glob' });
+  }
+  if (t.schedule !== undefined && (typeof t.schedule !== 'string' || !parseCron(t.schedule))) {
+    problems.push({ severity: 'error', message: `Malformed \`triggers.schedule: ${String(t.schedule)}\` — use a 5-field cron expression such as '0 9 * * 1-5'` });
+  }
+}
+
+/**
+ * Checks a `workflow` step against the workflow it calls: it must exist,
+ * must not lead back to the caller, and should receive its declared inputs.
+ */
+function checkWorkflowCall(
+  step: WorkflowStep,
+  caller: WorkflowDefinition,
+  resolve: WorkflowResolver,
+  problems: WorkflowProblem[],
+): void {
+  const callee = resolve(step.workflow ?? '');
+  if (!callee) {
+    problems.push({ severity: 'error', message: `Calls unknown workflow \`${step.workflow}\``, stepId: step.id });
+    return;
+  }
+
+  const cycle = findCallCycle(caller.name, callee, resolve, [caller.name, callee.name]);
+  if (cycle) {
+    problems.push({ severity: 'error', message: `Recursive workflow call: ${cycle.join(' → ')}`, stepId: step.id });
+  }
+
+  const passed = new Set(Object.keys(isObject(step.with) ? step.with : {}));
+  for (const input of stringList(callee.inputs).filter(i => !passed.has(i))) {
+    problems.push({ severity: 'warning', message: `Workflow \`${callee.name}\` expects input \`${input}\` — pass it with \`with:\``, stepId: step.id });
+  }
+}
+
+/** Returns the call chain if `wf` (transitively) calls `target`. */
+function findCallCycle(
+  target: string,
+  wf: WorkflowDefinition,
+  resolve: WorkflowResolver,
+  chain: string[],
+): string[] | undefined {
+  if (wf.name === target) return chain;
+  for (const s of allSteps(wf)) {
+    if (s.type !== 'workflow' || typeof s.workflow !== 'string') continue;
+    const next = resolve(s.workflow);
+    if (!next || (chain.includes(next.name) && next.name !== target)) continue;
+    const found = findCallCycle(target, next, resolve, [...chain, next.name]);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function stringList(v: unknown): string[] {
+  return Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string') : [];
+}
+
+function parseStepCondition(step: Partial<WorkflowStep>): { expr: Expr } | { error: string } {
+  try {
+    return { expr: parseCondition(String(step.condition)) };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function allSteps(wf: WorkflowDefinition): WorkflowStep[] {
+  const out: WorkflowStep[] = [];
+  const walk = (steps: unknown): void => {
+    if (!Array.isArray(steps)) return;
+    for (const s of steps) {
+      if (!isObject(s)) continue;
+      out.push(s as WorkflowStep);
+      walk((s as WorkflowStep).steps);
+    }
+  };
+  walk(wf.steps);
+  walk(wf.fallbacks);
+  walk(wf.finally);
+  return out;
+}
+
+function isObject(v: unknown): v is object {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import type { SilverServices } from '../../types';
+import { isIntentKey } from '../../core/mcp/discovery';
+import { tryInvokeTool } from '../../core/mcp/tools';
+import type { CancellationSignal, LlmModel, WorkflowHost } from './host';
+
+// ---------------------------------------------------------------------------
+// WorkflowHost for the extension
+//
+//   llm         → vscode.lm (step / agent / default `model:`, then claude → gpt-4o → any)
+//   ui          → QuickPick / InputBox / modal warning
+//   tools       → intents via ToolDiscovery, Silver tools via ToolRegistry
+//                 (HITL confirmation), anything else via vscode.lm.invokeTool
+//   checkpoints → RunHistory
+//
+// `svc` is read lazily: the engine is created before ToolRegistry exists.
+// ---------------------------------------------------------------------------
+
+export function createVsCodeHost(svc: SilverServices): WorkflowHost {
+  return {
+    workspaceRoot: () => vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+    gitCwd: resolveGitCwd,
+    setting: <T>(key: string, fallback: T) => vscode.workspace.getConfiguration('silverEngineer').get<T>(key, fallback),
+
+    llm: {
+      async selectModel(hint) {
+        const model = await selectModel(hint);
+        return model ? wrapModel(model) : undefined;
+      },
+    },
+
+    ui: {
+      inputBox: ({ prompt, placeHolder, validate }) => Promise.resolve(vscode.window.showInputBox({
+        prompt,
+        placeHolder,
+        ignoreFocusOut: true,
+        validateInput: validate,
+      })),
+      async pick(items, { title, placeHolder, multi }) {
+        const options = { title, placeHolder, ignoreFocusOut: true };
+        if (multi) return vscode.window.showQuickPick(items, { ...options, canPickMany: true });
+        const picked = await vscode.window.showQuickPick(items, options);
+        return picked === undefined ? undefined : [picked];
+      },
+      async confirm(message) {
+        const answer = await vscode.window.showWarningMessage(message, { modal: true }, 'Allow');
+        return answer === 'Allow';
+      },
+    },
+
+    tools: {
+      describe(name) {
+        if (isIntentKey(name)) {
+          const found = svc.discovery.findToolForIntent(name);
+          return found ? { label: `intent ${name} → \`${found.name}\``, confirms: false } : undefined;
+        }
+        if (svc.tools.has(name)) return { label: `\`${name}\``, confirms: true };
+        if (vscode.lm.tools.some(t => t.name === name)) return { label: `LM tool \`${name}\``, confirms: false };
+        return undefined;
+      },
+      async invoke(name, input, stream, token) {
+        if (isIntentKey(name)) {
+          const found = svc.discovery.findToolForIntent(name);
+          if (found) stream.markdown(`> 🔌 ${name} → \`${found.name}\`\n\n`);
+          return { output: await svc.discovery.invoke(name, input, toVsCodeToken(token)) };
+        }
+        if (svc.tools.has(name)) {
+          const result = await svc.tools.invokeWithConfirmation(name, input);
+          if (!result) return { declined: true };
+          return { output: result.output, failed: !result.success };
+        }
+        return { output: await tryInvokeTool(name, input, toVsCodeToken(token)) };
+      },
+    },
+
+    saveCheckpoint: checkpoint => svc.runs.saveCheckpoint(checkpoint),
+    clearCheckpoint: name => svc.runs.clearCheckpoint(name),
+  };
+}
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Selects the best available LM. Tries the requested model first (step,
+ * agent file or workspace default), then falls back through
+ * claude → gpt-4o → any available model.
+ */
+async function selectModel(hint?: string): Promise<vscode.LanguageModelChat | null> {
+  // Try the requested model (e.g. 'claude-sonnet-4-5')
+  if (hint) {
+    // hint may be 'claude-sonnet-4-5' → family='claude', or 'gpt-4o' → family='gpt-4o'
+    const family = hint.startsWith('claude') ? 'claude' : hint;
+    const byHint = await vscode.lm.selectChatModels({ family });
+    if (byHint.length > 0) return byHint[0];
+    // Try exact id match
+    const byId = await vscode.lm.selectChatModels({ id: hint });
+    if (byId.length > 0) return byId[0];
+  }
+  // Fallback chain: claude → gpt-4o → any
+  for (const family of ['claude', 'gpt-4o', 'copilot']) {
+    const m = await vscode.lm.selectChatModels({ family });
+    if (m.length > 0) return m[0];
+  }
+  const any = await vscode.lm.selectChatModels({});
+  return any[0] ?? null;
+}
+
+function wrapModel(model: vscode.LanguageModelChat): LlmModel {
+  return {
+    name: model.name,
+    async *send(messages, token, options) {
+      // vscode.lm has no system role — the system prompt goes first as a marked user message
+      const chat = messages.map(m => m.role === 'assistant'
+        ? vscode.LanguageModelChatMessage.Assistant(m.content)
+        : vscode.LanguageModelChatMessage.User(m.role === 'system' ? `[SYSTEM] ${m.content}` : m.content));
+      const modelOptions: Record<string, number> = {};
+      if (options?.temperature !== undefined) modelOptions.temperature = options.temperature;
+      if (options?.maxTokens !== undefined) modelOptions.max_tokens = options.maxTokens;
+      const response = await model.sendRequest(chat, { modelOptions }, toVsCodeToken(token));
+      yield* response.text;
+    },
+  };
+}
+
+/**
+ * The engine passes VS Code tokens through unchanged (or NEVER_CANCELLED,
+ * which has the same shape), so a signal can be handed to vscode APIs as is.
+ */
+function toVsCodeToken(signal: CancellationSignal): vscode.CancellationToken {
+  return signal as vscode.CancellationToken;
+}
+
+/**
+ * Returns the git repository root for the currently active editor file.
+ * Falls back to the first workspace folder if no editor is open or the
+ * file is not inside a git repo.
+ *
+ * This correctly handles workspaces where the open folder (e.g. d:\AI) is
+ * a different git repo than the file being edited (e.g. d:\AI\silver-engineer).
+ */
+function resolveGitCwd(): string | undefined {
+  // 1. Try active editor's file path first
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  if (activeUri && activeUri.scheme === 'file') {
+    const fileDir = path.dirname(activeUri.fsPath);
+    try {
+      const root = execSync('git rev-parse --show-toplevel', {
+        encoding: 'utf8',
+        cwd: fileDir,
+      }).trim();
+      if (root) return root;
+    } catch { /* not a git repo, fall through */ }
+  }
+  // 2. Fall back to workspace folder
+  return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+}
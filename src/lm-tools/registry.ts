@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
-import { execSync } from 'child_process';
+import { execFile, execSync } from 'child_process';
 import type { SilverServices } from '../types';
+import { recordDecision } from '../features/knowledge-graph/decisions';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -178,6 +179,60 @@ const recallTool: SilverTool = {
   },
 };
 
+const findExpertsTool: SilverTool = {
+  name: 'silver_find_experts',
+  description: 'Rank the people who know a path, module or technology best (from git history in the Knowledge Graph).',
+  prepareConfirmation(input) {
+    return `Find experts for: ${(input['topics'] as string[] | undefined ?? []).join(', ')}`;
+  },
+  async invoke(input, svc) {
+    const topics = input['topics'] as string[] | undefined ?? [];
+    const limit  = (input['limit'] as number | undefined) ?? 5;
+
+    const experts = svc.graph.findExperts(topics, { limit });
+    if (experts.length === 0) {
+      return { success: true, output: 'No matching modules or technologies in the Knowledge Graph.', data: { experts } };
+    }
+    return {
+      success: true,
+      output: experts
+        .map(e => `- ${e.label}${e.email ? ` <${e.email}>` : ''} (${e.score.toFixed(2)}): ${e.reasons.join('; ')}`)
+        .join('\n'),
+      data: { experts },
+    };
+  },
+};
+
+const recordDecisionTool: SilverTool = {
+  name: 'silver_record_decision',
+  description: 'Record an architecture decision (title, context, alternatives, modules, people) in the Knowledge Graph, optionally as an ADR file.',
+  prepareConfirmation(input) {
+    const adr = input['writeAdr'] ? ' and write an ADR to docs/adr/' : '';
+    return `Record decision **"${input['title'] as string}"**${adr}`;
+  },
+  async invoke(input, svc) {
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    try {
+      const recorded = await recordDecision(svc, {
+        title:        input['title'] as string ?? '',
+        context:      input['context'] as string ?? '',
+        decision:     input['decision'] as string | undefined,
+        alternatives: input['alternatives'] as string[] | undefined,
+        modules:      input['modules'] as string[] | undefined,
+        people:       input['people'] as string[] | undefined,
+        writeAdr:     input['writeAdr'] as boolean | undefined,
+      }, root);
+      return {
+        success: true,
+        output: `Recorded decision "${input['title'] as string}"` + (recorded.adrPath ? ` (${recorded.adrPath})` : ''),
+        data: recorded,
+      };
+    } catch (err) {
+      return { success: false, output: `Could not record the decision: ${(err as Error).message}` };
+    }
+  },
+};
+
 // ---------------------------------------------------------------------------
 // Tool: Code Review (ai_git_push workflow)
 // ---------------------------------------------------------------------------
@@ -248,18 +303,42 @@ const pushGerritTool: SilverTool = {
   name: 'silver_push_gerrit',
   description: 'Push current commit to Gerrit for review (refs/for/<branch>).',
   prepareConfirmation(input) {
-    const branch = input['branch'] as string ?? 'main';
-    return `Push to Gerrit **refs/for/${branch}**`;
+    const { branch, reviewers } = gerritPushInput(input);
+    return `Push to Gerrit **refs/for/${branch}**` + (reviewers.length ? ` with reviewers ${reviewers.join(', ')}` : '');
   },
   async invoke(input, _svc) {
-    const branch = (input['branch'] as string ?? 'main');
-    const terminal = vscode.window.createTerminal({ name: 'Silver: git push' });
-    terminal.show();
-    terminal.sendText(`git push origin HEAD:refs/for/${branch}`);
-    return { success: true, output: `Pushing to refs/for/${branch}… (see terminal for output)` };
+    const { branch, reviewers } = gerritPushInput(input);
+    if (!SAFE_BRANCH.test(branch) || branch.includes('..')) {
+      return { success: false, output: `Invalid target branch \`${branch}\`` };
+    }
+    // Gerrit push options: refs/for/main%r=a@example.com,r=b@example.com
+    const options = reviewers.length ? `%${reviewers.map(r => `r=${r}`).join(',')}` : '';
+    const refspec = `HEAD:refs/for/${branch}${options}`;
+    const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    // An argument array, not a shell line — nothing in the refspec is interpreted
+    return new Promise(resolve => {
+      execFile('git', ['push', 'origin', refspec], { cwd, encoding: 'utf8' }, (err, stdout, stderr) => {
+        const output = [stdout, stderr].map(t => t.trim()).filter(Boolean).join('\n');
+        resolve(err
+          ? { success: false, output: `git push failed: ${output || err.message}` }
+          : { success: true, output: `Pushed to refs/for/${branch}${options}\n${output}` });
+      });
+    });
   },
 };
 
+/** Reviewer e-mails as Gerrit accepts them in a `%r=` push option */
+const REVIEWER_EMAIL = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/;
+const SAFE_BRANCH = /^[A-Za-z0-9][A-Za-z0-9._/-]*$/;
+
+/** Reads branch and reviewers; reviewers that are not plain e-mails are dropped */
+function gerritPushInput(input: ToolInput): { branch: string; reviewers: string[] } {
+  const branch = typeof input['branch'] === 'string' && input['branch'] ? input['branch'] : 'main';
+  const raw = Array.isArray(input['reviewers']) ? input['reviewers'] : [];
+  const reviewers = raw.filter((r): r is string => typeof r === 'string' && REVIEWER_EMAIL.test(r));
+  return { branch, reviewers };
+}
+
 // ---------------------------------------------------------------------------
 // ToolRegistry
 // ---------------------------------------------------------------------------
@@ -277,13 +356,17 @@ export class ToolRegistry {
 
   registerAll(): void {
     [commitCodeTool, updateJiraTool, generateComponentTool, recallTool,
-      reviewCodeTool, pushGerritTool].forEach(t => this.register(t));
+      findExpertsTool, recordDecisionTool, reviewCodeTool, pushGerritTool].forEach(t => this.register(t));
   }
 
   register(tool: SilverTool): void {
     this.registry.set(tool.name, tool);
   }
 
+  has(toolName: string): boolean {
+    return this.registry.has(toolName);
+  }
+
   // ── HITL manual invocation ────────────────────────────────────────────────
 
   /**
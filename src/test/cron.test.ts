@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { cronMatches, parseCron } from '../features/workflow-engine/cron';
+
+// Local time, like the trigger manager: 2026-03-02 is a Monday
+const at = (day: number, hour: number, minute: number, month = 3): Date => new Date(2026, month - 1, day, hour, minute);
+const matches = (expr: string, date: Date): boolean => cronMatches(parseCron(expr)!, date);
+
+test('cronMatches: fields, ranges, steps and lists', () => {
+  assert.equal(matches('*/15 9-17 * * 1-5', at(2, 9, 30)), true);
+  assert.equal(matches('*/15 9-17 * * 1-5', at(2, 9, 31)), false);
+  assert.equal(matches('*/15 9-17 * * 1-5', at(7, 9, 30)), false); // Saturday
+  assert.equal(matches('0 8,12 * * *', at(2, 12, 0)), true);
+  assert.equal(matches('0 0 1 1 *', at(1, 0, 0, 1)), true);
+});
+
+test('cronMatches: Sunday is 0 or 7', () => {
+  assert.equal(matches('0 10 * * 0', at(8, 10, 0)), true);
+  assert.equal(matches('0 10 * * 7', at(8, 10, 0)), true);
+});
+
+test('cronMatches: restricted day and weekday match either (classic cron)', () => {
+  assert.equal(matches('0 0 15 * 1', at(15, 0, 0)), true);  // the 15th, a Sunday
+  assert.equal(matches('0 0 15 * 1', at(2, 0, 0)), true);   // a Monday
+  assert.equal(matches('0 0 15 * 1', at(3, 0, 0)), false);
+});
+
+test('parseCron: aliases', () => {
+  assert.equal(matches('@daily', at(2, 0, 0)), true);
+  assert.equal(matches('@hourly', at(2, 5, 0)), true);
+  assert.equal(matches('@weekly', at(8, 0, 0)), true);
+  assert.equal(parseCron('@weekdays'), undefined);
+});
+
+test('parseCron: malformed expressions', () => {
+  for (const bad of ['', '* * * *', '* * * * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *', '*/0 * * * *', '5-1 * * * *', 'a * * * *']) {
+    assert.equal(parseCron(bad), undefined, bad);
+  }
+});
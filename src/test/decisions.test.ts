@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseDecisionPrompt } from '../features/knowledge-graph/decisions';
+
+test('parseDecisionPrompt: labelled fields, continuations and --adr', () => {
+  const input = parseDecisionPrompt([
+    'Use SQLite for run history --adr',
+    'JSON files get slow past a few thousand runs.',
+    'decision: embed better-sqlite3',
+    'alternatives: keep JSON; LevelDB',
+    'modules: src/features/workflow-engine, src/core/storage',
+    'people: Jane Doe <jane@example.com>, bob@example.com',
+  ].join('\n'));
+
+  assert.deepEqual(input, {
+    title: 'Use SQLite for run history',
+    context: 'JSON files get slow past a few thousand runs.',
+    decision: 'embed better-sqlite3',
+    alternatives: ['keep JSON', 'LevelDB'],
+    modules: ['src/features/workflow-engine', 'src/core/storage'],
+    people: ['Jane Doe <jane@example.com>', 'bob@example.com'],
+    writeAdr: true,
+  });
+});
+
+test('parseDecisionPrompt: title only', () => {
+  const input = parseDecisionPrompt('Adopt conventional commits');
+  assert.equal(input.title, 'Adopt conventional commits');
+  assert.equal(input.decision, undefined);
+  assert.equal(input.writeAdr, false);
+  assert.deepEqual(input.modules, []);
+});
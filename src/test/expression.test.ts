@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ConditionSyntaxError, conditionReferences, evaluateCondition, parseCondition } from '../features/workflow-engine/expression';
+import type { StepResult } from '../features/workflow-engine/types';
+
+const steps = new Map<string, StepResult>([
+  ['build', { id: 'build', passed: true, output: 'built 3 targets', skipped: false, exitCode: 0 }],
+  ['lint', { id: 'lint', passed: false, output: '', skipped: false, failReason: 'exit 1' }],
+]);
+const variables = new Map([
+  ['confirmed', 'yes'],
+  ['declined', ''],
+  ['count', '10'],
+  ['review', '{"issues":[{"file":"a.ts","line":3}],"ok":false}'],
+]);
+const check = (condition: string): boolean => evaluateCondition(condition, { steps, variables, env: { CI: 'true' } });
+
+test('evaluateCondition: references, operators and functions', () => {
+  assert.equal(check("steps.build.passed && !steps.lint.passed"), true);
+  assert.equal(check("vars.confirmed == 'yes' || vars.declined"), true);
+  assert.equal(check('vars.declined'), false);
+  assert.equal(check('vars.missing'), false);
+  assert.equal(check('vars.count > 9'), true);            // numeric, not '10' < '9'
+  assert.equal(check('vars.review.issues[0].line == 3'), true);
+  assert.equal(check('vars.review.ok'), false);
+  assert.equal(check("contains(steps.build.output, 'targets') && length(vars.confirmed) == 3"), true);
+  assert.equal(check("matches(vars.review.issues[0].file, '\\.ts$')"), true);
+  assert.equal(check('env.CI == true'), true);
+});
+
+test('conditionReferences: steps and variables used', () => {
+  assert.deepEqual(
+    conditionReferences(parseCondition("steps.build.passed && vars.review.ok != vars.count")),
+    { steps: ['build'], vars: ['review', 'count'] },
+  );
+});
+
+test('parseCondition: malformed input throws ConditionSyntaxError', () => {
+  for (const bad of [
+    '', 'steps.build', 'steps.build.status', "vars.x == 'open", '(vars.x', 'vars.x)',
+    'vars.x ==', 'vars.x[one]', 'contains(vars.x)', "matches(vars.x, '(')", '&& vars.x', 'vars.x = 1',
+  ]) {
+    assert.throws(() => parseCondition(bad), ConditionSyntaxError, bad);
+  }
+});
+
+test('parseCondition: hostile input is rejected, never executed', () => {
+  for (const hostile of [
+    'process.exit(1)', "require('child_process')", 'constructor(1)', 'toString()', '__proto__(1)',
+    'this', 'globalThis.x', 'eval("1")', 'new Function("return 1")()', '`x`', 'vars.x; vars.y',
+  ]) {
+    assert.throws(() => parseCondition(hostile), ConditionSyntaxError, hostile);
+  }
+});
+
+test('evaluateCondition: prototype paths read as missing', () => {
+  assert.equal(check('vars.__proto__'), false);
+  assert.equal(check('vars.review.constructor'), false);
+  assert.equal(check('vars.review.__proto__'), false);
+});
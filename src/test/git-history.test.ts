@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseGitLog } from '../features/knowledge-graph/git-history';
+
+// `git log --numstat --format=LOG_FORMAT` framing: record, field and trailer separators
+const R = '\x1e', F = '\x1f', T = '\x1d';
+
+test('parseGitLog: authors, trailers and numstat', () => {
+  const text = [
+    `${R}aaa111${F}Jane Doe${F}Jane@Example.com${F}2026-01-02T10:00:00+01:00${F}`
+      + `Reviewed-by: Bob <bob@example.com>${T}Co-authored-by: Carol <CAROL@example.com>${T}Reviewed-by: Dana${F}\n`
+      + '10\t2\tsrc/app.ts\n-\t-\tassets/logo.png\n',
+    `${R}bbb222${F}Bob${F}bob@example.com${F}2026-01-01T09:00:00Z${F}${F}\n3\t0\tREADME.md\n`,
+  ].join('');
+
+  const [first, second] = parseGitLog(text);
+  assert.equal(first.sha, 'aaa111');
+  assert.deepEqual(first.author, { name: 'Jane Doe', email: 'jane@example.com' });
+  assert.deepEqual(first.reviewers, [{ name: 'Bob', email: 'bob@example.com' }, { name: 'Dana', email: '' }]);
+  assert.deepEqual(first.coAuthors, [{ name: 'Carol', email: 'carol@example.com' }]);
+  assert.deepEqual(first.files, [{ path: 'src/app.ts', churn: 12 }, { path: 'assets/logo.png', churn: 1 }]);
+  assert.deepEqual(second.reviewers, []);
+  assert.deepEqual(second.files, [{ path: 'README.md', churn: 3 }]);
+});
+
+test('parseGitLog: renames resolve to the new path', () => {
+  const text = `${R}ccc333${F}Jane${F}jane@example.com${F}2026-01-03T00:00:00Z${F}${F}\n`
+    + '1\t1\tsrc/{old => new}/x.ts\n0\t0\tlib/{ => util}/y.ts\n2\t0\ta.ts => b.ts\n';
+  assert.deepEqual(parseGitLog(text)[0].files.map(f => f.path), ['src/new/x.ts', 'lib/util/y.ts', 'b.ts']);
+});
+
+test('parseGitLog: empty and truncated input', () => {
+  assert.deepEqual(parseGitLog(''), []);
+  assert.deepEqual(parseGitLog(`${R}ddd444${F}Jane`), []);
+});
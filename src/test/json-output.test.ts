@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractJson } from '../features/workflow-engine/json-output';
+
+test('extractJson: bare object', () => {
+  assert.deepEqual(extractJson('{"a":1}'), { value: { a: 1 } });
+});
+
+test('extractJson: object followed by a [PASS] line', () => {
+  assert.deepEqual(extractJson('{"a":1}\n[PASS]'), { value: { a: 1 } });
+});
+
+test('extractJson: trailing prose containing brackets', () => {
+  assert.deepEqual(
+    extractJson('Here you go:\n{"issues":[{"line":3}]}\nSee [the docs] for more {details}.'),
+    { value: { issues: [{ line: 3 }] } },
+  );
+});
+
+test('extractJson: leading [PASS] before an array', () => {
+  assert.deepEqual(extractJson('[PASS]\n[1, 2]'), { value: [1, 2] });
+});
+
+test('extractJson: brackets inside strings', () => {
+  assert.deepEqual(extractJson('{"msg":"use ] and } freely \\" ok"} trailing ]'), { value: { msg: 'use ] and } freely " ok' } });
+});
+
+test('extractJson: code fence', () => {
+  assert.deepEqual(extractJson('Result:\n```json\n{"ok":true}\n```\n[PASS]'), { value: { ok: true } });
+});
+
+test('extractJson: errors', () => {
+  assert.equal(extractJson('no json here').error, 'No JSON object or array found in the response');
+  assert.equal(extractJson('{"a":1').error, 'JSON value is not closed');
+  assert.match(extractJson('{a:1}').error ?? '', /^Invalid JSON/);
+});
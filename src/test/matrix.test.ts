@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { expandMatrix, matrixLabel } from '../features/workflow-engine/matrix';
+
+test('expandMatrix: cartesian product minus excludes', () => {
+  const combinations = expandMatrix({
+    branch: ['release/1.x', 'release/2.x'],
+    target: ['arm64', 'x86_64'],
+    exclude: [{ branch: 'release/1.x', target: 'arm64' }],
+  }, () => []);
+  assert.deepEqual(combinations.map(matrixLabel), [
+    'branch=release/1.x, target=x86_64',
+    'branch=release/2.x, target=arm64',
+    'branch=release/2.x, target=x86_64',
+  ]);
+});
+
+test('expandMatrix: string axes and scalar values', () => {
+  const combinations = expandMatrix({ branch: '{{branches}}', debug: [true, false] }, () => ['main', 'dev']);
+  assert.deepEqual(combinations, [
+    { branch: 'main', debug: 'true' }, { branch: 'main', debug: 'false' },
+    { branch: 'dev', debug: 'true' }, { branch: 'dev', debug: 'false' },
+  ]);
+});
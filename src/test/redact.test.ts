@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { REDACTED, isSensitiveName, redactValues } from '../features/workflow-engine/redact';
+
+test('isSensitiveName: secrets', () => {
+  for (const name of ['jira_token', 'API_KEY', 'apikey', 'db_password', 'client_secret', 'auth', 'auth_header', 'basic-auth', 'git_credentials']) {
+    assert.equal(isSensitiveName(name), true, name);
+  }
+});
+
+test('isSensitiveName: author is not auth', () => {
+  for (const name of ['author', 'commit_author', 'authors', 'author_email', 'authority']) {
+    assert.equal(isSensitiveName(name), false, name);
+  }
+});
+
+test('redactValues: every occurrence', () => {
+  assert.equal(redactValues('a s3cr3t b s3cr3t', ['s3cr3t']), `a ${REDACTED} b ${REDACTED}`);
+});
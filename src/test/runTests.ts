@@ -0,0 +1,16 @@
+// ---------------------------------------------------------------------------
+// Unit test entry point — bundled to dist/test/runTests.js (see
+// esbuild.config.js). Importing a test file registers its node:test cases;
+// the runner executes them once this module has loaded.
+// ---------------------------------------------------------------------------
+
+import './cron.test';
+import './decisions.test';
+import './expression.test';
+import './git-history.test';
+import './json-output.test';
+import './matrix.test';
+import './redact.test';
+import './sarif.test';
+import './shell.test';
+import './validator.test';
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { toSarif } from '../features/workflow-engine/sarif';
+
+test('toSarif: findings read leniently', () => {
+  const log = toSarif({ issues: [
+    { file: 'src\\a.ts', line: 3, message: 'Null dereference', severity: 'high', rule: 'null-check' },
+    { location: { path: 'b.ts' }, description: 'Naming', level: 'minor' },
+    'plain text finding',
+  ] }, 'review/review');
+
+  const [a, b, c] = log.runs[0].results;
+  assert.deepEqual(a, {
+    ruleId: 'null-check', level: 'error', message: { text: 'Null dereference' },
+    locations: [{ physicalLocation: { artifactLocation: { uri: 'src/a.ts' }, region: { startLine: 3 } } }],
+  });
+  assert.equal(b.level, 'warning');
+  assert.equal(b.locations?.[0].physicalLocation.artifactLocation.uri, 'b.ts');
+  assert.deepEqual(c, { ruleId: 'finding', level: 'warning', message: { text: 'plain text finding' } });
+  assert.deepEqual(log.runs[0].tool.driver.rules, [{ id: 'null-check' }, { id: 'finding' }]);
+});
+
+test('toSarif: no findings list', () => {
+  assert.throws(() => toSarif({ summary: 'fine' }, 'x'), /no findings list/);
+});
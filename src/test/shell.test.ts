@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { formatDuration, parseTimeout } from '../features/workflow-engine/shell';
+
+test('parseTimeout: seconds by default, units, malformed', () => {
+  assert.equal(parseTimeout(90), 90_000);
+  assert.equal(parseTimeout('90'), 90_000);
+  assert.equal(parseTimeout('1.5s'), 1500);
+  assert.equal(parseTimeout('5m'), 300_000);
+  assert.equal(parseTimeout('1h'), 3_600_000);
+  assert.equal(parseTimeout('250ms'), 250);
+  for (const bad of [undefined, 0, -1, '', '0s', 'five minutes', '5 d']) {
+    assert.equal(parseTimeout(bad), undefined, String(bad));
+  }
+});
+
+test('formatDuration: round-trips through parseTimeout', () => {
+  for (const text of ['5m', '1h', '90s', '1.5s', '250ms']) {
+    assert.equal(formatDuration(parseTimeout(text)!), text);
+  }
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { validateWorkflow } from '../features/workflow-engine/validator';
+
+const flowWarnings = (def: unknown): string[] =>
+  validateWorkflow(def).filter(p => p.message.includes('before any step produces it')).map(p => `${p.stepId}: ${p.message}`);
+
+test('validateWorkflow: parallel children cannot read a sibling output', () => {
+  const warnings = flowWarnings({
+    name: 'p',
+    steps: [{
+      id: 'group', type: 'parallel', steps: [
+        { id: 'a', type: 'shell', command: 'echo a', output: 'a_out' },
+        { id: 'b', type: 'shell', command: 'echo {{a_out}}' },
+      ],
+    }],
+  });
+  assert.deepEqual(warnings, ['b: `{{a_out}}` is used before any step produces it']);
+});
+
+test('validateWorkflow: parallel outputs are visible after the group', () => {
+  const warnings = flowWarnings({
+    name: 'p',
+    steps: [
+      {
+        id: 'group', type: 'parallel', steps: [
+          { id: 'a', type: 'shell', command: 'echo a', output: 'a_out' },
+          { id: 'b', type: 'shell', command: 'echo b', output: 'b_out' },
+        ],
+      },
+      { id: 'after', type: 'shell', command: 'echo {{a_out}} {{b_out}}', condition: 'vars.a_out' },
+    ],
+  });
+  assert.deepEqual(warnings, []);
+});
+
+test('validateWorkflow: matrix artifacts need a matrix variable in the path', () => {
+  const errors = (path: string): string[] => validateWorkflow({
+    name: 'm',
+    matrix: { target: ['arm64', 'x86_64'] },
+    steps: [{ id: 'build', type: 'shell', command: 'make', artifacts: [{ path }] }],
+  }).filter(p => p.severity === 'error').map(p => p.message);
+
+  assert.equal(errors('out/build.log').length, 1);
+  assert.deepEqual(errors('out/build-{{target}}.log'), []);
+});
@@ -15,6 +15,10 @@ declare function acquireVsCodeApi(): {
 interface NodeData { id: string; label: string; type: string; weight: number }
 interface EdgeData { source: string; target: string; type: string }
 interface GraphPayload { nodes: NodeData[]; edges: EdgeData[] }
+interface RunSummary {
+  id: string; workflowName: string; startedAt: string;
+  passed: boolean; abortedAt?: string; cancelled?: boolean; stepCount: number;
+}
 
 // ---------------------------------------------------------------------------
 
@@ -37,8 +41,13 @@ window.addEventListener('DOMContentLoaded', () => {
   });
   document.getElementById('btn-refresh')?.addEventListener('click', () => {
     vscode.postMessage({ type: 'requestGraph' });
+    requestRuns();
   });
 
+  // Run history: re-query on every keystroke (list is capped host-side)
+  document.getElementById('runs-filter')?.addEventListener('input', requestRuns);
+  requestRuns();
+
   // Signal ready → Extension Host will push graph data
   vscode.postMessage({ type: 'ready' });
 });
@@ -51,9 +60,45 @@ window.addEventListener('message', (event) => {
   const msg = event.data as { type: string; payload?: unknown };
   if (msg.type === 'graphData') {
     renderGraph(msg.payload as GraphPayload);
+  } else if (msg.type === 'runsData') {
+    renderRuns(msg.payload as RunSummary[]);
   }
 });
 
+// ---------------------------------------------------------------------------
+// Workflow run history
+// ---------------------------------------------------------------------------
+
+function requestRuns(): void {
+  const input = document.getElementById('runs-filter') as HTMLInputElement | null;
+  vscode.postMessage({ type: 'requestRuns', filter: input?.value ?? '' });
+}
+
+function renderRuns(runs: RunSummary[]): void {
+  const list = document.getElementById('runs-list');
+  if (!list) return;
+  list.replaceChildren();
+
+  if (runs.length === 0) {
+    const empty = document.createElement('li');
+    empty.textContent = 'No runs recorded.';
+    list.appendChild(empty);
+    return;
+  }
+
+  for (const run of runs) {
+    const icon = run.cancelled ? '🚫' : run.abortedAt ? '❌' : run.passed ? '✅' : '⚠️';
+    const li = document.createElement('li');
+    li.textContent = `${icon} ${run.workflowName} — ${new Date(run.startedAt).toLocaleString()}` +
+      (run.abortedAt ? ` (aborted at ${run.abortedAt})` : '');
+    li.title = `${run.id} · ${run.stepCount} step(s) — click to reopen in chat`;
+    li.addEventListener('click', () => {
+      vscode.postMessage({ type: 'openChat', query: `@silver /runs ${run.id}` });
+    });
+    list.appendChild(li);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Force-directed graph renderer (vanilla canvas)
 // ---------------------------------------------------------------------------
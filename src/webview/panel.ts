@@ -11,6 +11,7 @@ type WebviewMessage =
   | { type: 'openChat';    query: string }
   | { type: 'runCommand';  command: string; args?: unknown[] }
   | { type: 'requestGraph' }
+  | { type: 'requestRuns'; filter?: string }
   | { type: 'confirmEdge'; source: string; target: string; confirmed: boolean };
 
 /**
@@ -100,6 +101,10 @@ export class DashboardPanel implements vscode.Disposable {
         await this.sendGraphData();
         break;
 
+      case 'requestRuns':
+        await this.sendRuns(msg.filter);
+        break;
+
       case 'confirmEdge':
         // User confirmed a suggested relationship → reinforce edge weight
         if (msg.confirmed) {
@@ -114,6 +119,11 @@ export class DashboardPanel implements vscode.Disposable {
     await this.panel.webview.postMessage({ type: 'graphData', payload: data });
   }
 
+  private async sendRuns(filter?: string): Promise<void> {
+    const runs = await this.svc.runs.list(filter ?? '');
+    await this.panel.webview.postMessage({ type: 'runsData', payload: runs });
+  }
+
   // ── HTML generation ───────────────────────────────────────────────────────
 
   private buildHtml(webview: vscode.Webview): string {
@@ -152,6 +162,11 @@ export class DashboardPanel implements vscode.Disposable {
     .btn { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; border-radius: 3px; padding: 6px 14px; cursor: pointer; margin: 4px 4px 4px 0; font-size: 0.85em; }
     .btn:hover { background: var(--vscode-button-hoverBackground); }
     .stats { font-size: 0.8em; color: var(--vscode-descriptionForeground); margin-top: 8px; }
+    h2 { font-size: 1em; font-weight: 600; margin: 16px 0 6px; }
+    #runs-filter { width: 100%; box-sizing: border-box; padding: 4px 6px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); }
+    #runs-list { list-style: none; padding: 0; margin: 6px 0; font-size: 0.85em; }
+    #runs-list li { padding: 3px 4px; cursor: pointer; border-radius: 3px; }
+    #runs-list li:hover { background: var(--vscode-list-hoverBackground); }
   </style>
 </head>
 <body>
@@ -165,6 +180,9 @@ export class DashboardPanel implements vscode.Disposable {
     <button class="btn" id="btn-summary">📋 Daily Summary</button>
     <button class="btn" id="btn-skills">🛠️ Skills</button>
     <button class="btn" id="btn-refresh">🔄 Refresh</button>
+    <h2>🗂️ Workflow Runs</h2>
+    <input id="runs-filter" type="text" placeholder="Filter: workflow name, passed, failed…">
+    <ul id="runs-list"></ul>
   </div>
   <script nonce="${nonce}" src="${webviewJsUri}"></script>
 </body>
@@ -237,6 +255,7 @@ export class SilverDashboardViewProvider implements vscode.WebviewViewProvider {
     switch (msg.type) {
       case 'ready':           await this.sendGraphData(); break;
       case 'requestGraph':    await this.sendGraphData(); break;
+      case 'requestRuns':     await this.sendRuns(msg.filter); break;
       case 'openChat':
         await vscode.commands.executeCommand('workbench.action.chat.open', { query: msg.query });
         break;
@@ -255,6 +274,12 @@ export class SilverDashboardViewProvider implements vscode.WebviewViewProvider {
     await this._view.webview.postMessage({ type: 'graphData', payload: data });
   }
 
+  private async sendRuns(filter?: string): Promise<void> {
+    if (!this._view) return;
+    const runs = await this.svc.runs.list(filter ?? '');
+    await this._view.webview.postMessage({ type: 'runsData', payload: runs });
+  }
+
   private buildHtml(webview: vscode.Webview): string {
     const webviewJsUri = webview.asWebviewUri(
       vscode.Uri.joinPath(this.ctx.extensionUri, 'dist', 'webview.js'),
@@ -279,6 +304,10 @@ export class SilverDashboardViewProvider implements vscode.WebviewViewProvider {
     .btn { background:var(--vscode-button-background); color:var(--vscode-button-foreground); border:none; border-radius:3px; padding:5px 12px; cursor:pointer; margin:4px 4px 4px 0; font-size:0.82em; }
     .btn:hover { background:var(--vscode-button-hoverBackground); }
     .stats { font-size:0.78em; color:var(--vscode-descriptionForeground); margin:6px 0; }
+    #runs-filter { width:100%; box-sizing:border-box; padding:3px 6px; background:var(--vscode-input-background); color:var(--vscode-input-foreground); border:1px solid var(--vscode-input-border, transparent); }
+    #runs-list { list-style:none; padding:0; margin:6px 0; font-size:0.82em; }
+    #runs-list li { padding:3px 4px; cursor:pointer; border-radius:3px; }
+    #runs-list li:hover { background:var(--vscode-list-hoverBackground); }
   </style>
 </head>
 <body>
@@ -292,6 +321,9 @@ export class SilverDashboardViewProvider implements vscode.WebviewViewProvider {
     <button class="btn" id="btn-summary">📋 Summary</button>
     <button class="btn" id="btn-skills">🛠️ Skills</button>
     <button class="btn" id="btn-refresh">🔄 Refresh</button>
+    <h2>🗂️ Workflow Runs</h2>
+    <input id="runs-filter" type="text" placeholder="Filter runs…">
+    <ul id="runs-list"></ul>
   </div>
   <script nonce="${nonce}" src="${webviewJsUri}"></script>
 </body>